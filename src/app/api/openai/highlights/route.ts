@@ -1,101 +1,78 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { VideoSegment } from '@/types';
+import { LLMProviderConfig } from '@/types';
+import { DEFAULT_LLM_CONFIG, LLM_PROVIDERS } from '@/lib/providers/llm-registry';
+import { createLLMProvider, LLMProviderError, validateLLMConfig } from '@/lib/providers/llm-providers';
+import { analyzeHighlights } from '@/lib/utils/highlight-analysis';
+
+// Windowed analysis of long transcripts makes several model calls
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
     try {
         // Get API key from header
         const apiKey = request.headers.get('X-API-KEY');
 
-        if (!apiKey) {
-            return NextResponse.json(
-                { error: 'OpenAI API key is required' },
-                { status: 401 }
-            );
-        }
+        // Parse request body
+        const {
+            transcript,
+            transcriptSegments,
+            prompt,
+            videoDuration,
+            maxDuration: highlightBudget,
+            minClipDuration,
+            maxClipDuration,
+            audioPeaks,
+            keyframes,
+            llm
+        } = await request.json();
+        const llmConfig: LLMProviderConfig = llm || DEFAULT_LLM_CONFIG;
 
-        // Basic validation of API key format
-        if (!apiKey.startsWith('sk-') || apiKey.length < 20) {
+        const configError = validateLLMConfig(llmConfig, apiKey);
+        if (configError) {
             return NextResponse.json(
-                { error: 'Invalid API key format' },
-                { status: 401 }
+                { error: configError },
+                { status: LLM_PROVIDERS[llmConfig.provider]?.requiresApiKey ? 401 : 400 }
             );
         }
 
-        const openai = new OpenAI({ apiKey });
-
-        // Parse request body
-        const { transcript, prompt, videoDuration } = await request.json();
+        // The request signal aborts when the client disconnects or cancels, which stops the model calls
+        const llmProvider = createLLMProvider(llmConfig, apiKey, request.signal);
 
-        if (!transcript) {
+        if (!transcript && !transcriptSegments?.length && !keyframes?.length) {
             return NextResponse.json(
                 { error: 'Transcript is required' },
                 { status: 400 }
             );
         }
 
-        // Build system message
-        const systemMessage = `
-      You are an expert video editor helping to create highlight reels from longer videos.
-      Analyze the transcript and find the most engaging segments based on the following criteria: ${prompt}
-      
-      Return ONLY JSON array of segments with the following properties:
-      - start: timestamp in seconds when segment should start
-      - end: timestamp in seconds when segment should end
-      - description: brief description of why this segment is interesting
-      
-      Rules:
-      1. Create as many segments as necessary to capture all important moments
-      2. Choose diverse segments from different parts of the video
-      3. The full video duration is ${videoDuration} seconds
-      4. Focus on complete thoughts or actions
-      5. Don't include incomplete sentences
-      6. Make sure each segment contains meaningful and coherent content
-    `;
-
-        // Call OpenAI's chat completion API
-        const response = await openai.chat.completions.create({
-            model: 'gpt-4-turbo',
-            messages: [
-                { role: 'system', content: systemMessage },
-                { role: 'user', content: transcript }
-            ],
-            response_format: { type: 'json_object' },
-            temperature: 0.7,
+        // Call the selected model, in windows when the transcript is too long for one request
+        console.log(`Finding highlights with ${llmProvider.id} model ${llmProvider.model}`);
+        const result = await analyzeHighlights(llmProvider, {
+            transcript,
+            transcriptSegments,
+            prompt,
+            videoDuration,
+            maxDuration: highlightBudget,
+            minClipDuration,
+            maxClipDuration,
+            audioPeaks,
+            keyframes,
         });
 
-        // Parse the response
-        const content = response.choices[0]?.message.content;
-        if (!content) {
-            throw new Error('Empty response from OpenAI');
+        if (result.dropped.length > 0) {
+            console.warn(`Dropped ${result.dropped.length} invalid segment(s):`, result.dropped);
         }
 
-        let segments: VideoSegment[];
-        try {
-            const parsedResult = JSON.parse(content);
-            segments = parsedResult.segments || [];
-
-            // Validate each segment
-            segments = segments.filter(segment =>
-                typeof segment.start === 'number' &&
-                typeof segment.end === 'number' &&
-                segment.start < segment.end &&
-                segment.start >= 0 &&
-                segment.end <= videoDuration
-            );
-
-            // Sort by start time
-            segments.sort((a, b) => a.start - b.start);
-
-        } catch (err) {
-            console.error('Error parsing OpenAI response:', content, 'error: ', err);
-            throw new Error('Failed to parse OpenAI response');
+        return NextResponse.json(result);
+    } catch (error) {
+        if (request.signal.aborted) {
+            console.log('Highlights request cancelled by the client');
+            return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
         }
 
-        return NextResponse.json(segments);
-    } catch (error) {
         console.error('Highlights error:', error);
-        // Check if it's an OpenAI API error
+        // Check if it's a provider API error
         const errorMessage = error instanceof Error
             ? error.message
             : 'Unknown error generating highlights';
@@ -106,7 +83,11 @@ export async function POST(request: NextRequest) {
                 error: errorMessage,
                 details: error instanceof Error ? error.cause || error.stack : undefined
             },
-            { status: error instanceof Error && errorMessage.includes('401') ? 401 : 500 }
+            {
+                status: error instanceof OpenAI.APIError || error instanceof LLMProviderError
+                    ? error.status || 500
+                    : error instanceof Error && errorMessage.includes('401') ? 401 : 500
+            }
         );
     }
 } 
\ No newline at end of file
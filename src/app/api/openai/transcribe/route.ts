@@ -1,62 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
+import type { Uploadable } from 'openai/uploads';
 import fetch from 'node-fetch';
+import { TranscriptionProviderConfig } from '@/types';
+import { createTranscriptionProvider, validateTranscriptionConfig } from '@/lib/providers/transcription-providers';
+import { AudioUploadError, openAudioFile, parseAudioUpload, removeAudioFile, resolveLocalAudio } from '@/lib/storage/server-audio-storage';
 
+/**
+ * Transcribes audio sent in one of three ways (see audio-storage.ts):
+ * - multipart/form-data with a "file" part and a JSON "provider" field
+ * - JSON with a storageKey from the local upload route
+ * - JSON with a fileUrl, e.g. a Vercel Blob URL
+ */
 export async function POST(request: NextRequest) {
+    // Audio files on this server, removed once the request is done
+    let audioFilePath: string | null = null;
+
     try {
         const apiKey = request.headers.get('X-API-KEY');
-        if (!apiKey) {
-            return NextResponse.json(
-                { error: 'OpenAI API key is required' },
-                { status: 401 }
-            );
+
+        let fileUrl: string | undefined;
+        let providerConfig: TranscriptionProviderConfig;
+        if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+            const upload = await parseAudioUpload(request);
+            audioFilePath = upload.filePath;
+            try {
+                providerConfig = upload.fields.provider ? JSON.parse(upload.fields.provider) : { provider: 'openai' };
+            } catch {
+                return NextResponse.json(
+                    { error: 'The provider field must be valid JSON' },
+                    { status: 400 }
+                );
+            }
+        } else {
+            const body = await request.json();
+            fileUrl = body.fileUrl;
+            providerConfig = body.provider || { provider: 'openai' };
+            // Resolve the key first so the stored file is removed however the request ends
+            if (body.storageKey) {
+                audioFilePath = resolveLocalAudio(body.storageKey);
+            }
         }
-        if (!apiKey.startsWith('sk-') || apiKey.length < 20) {
+
+        const configError = validateTranscriptionConfig(providerConfig, apiKey);
+        if (configError) {
             return NextResponse.json(
-                { error: 'Invalid API key format' },
-                { status: 401 }
+                { error: configError },
+                { status: providerConfig.provider === 'openai' ? 401 : 400 }
             );
         }
 
-        const openai = new OpenAI({ apiKey });
-
-        const body = await request.json();
-        const { fileUrl } = body;
-
-        if (!fileUrl) {
+        if (!audioFilePath && !fileUrl) {
             return NextResponse.json(
-                { error: 'fileUrl is required' },
+                { error: 'An audio file, storageKey or fileUrl is required' },
                 { status: 400 }
             );
         }
 
-        console.log(`Fetching audio file from URL: ${fileUrl}`);
-        const audioResponse = await fetch(fileUrl);
-        if (!audioResponse.ok) {
-            throw new Error(
-                `Failed to fetch audio file: ${audioResponse.statusText}`
-            );
+        // The request signal aborts when the client disconnects or cancels, which stops the upstream call
+        const transcriptionProvider = createTranscriptionProvider(providerConfig, apiKey, request.signal);
+
+        let audio: Uploadable;
+        if (audioFilePath) {
+            // Stream the file from disk so large chunks are never held in memory
+            audio = openAudioFile(audioFilePath);
+        } else {
+            console.log(`Fetching audio file from URL: ${fileUrl}`);
+            const audioResponse = await fetch(fileUrl!, { signal: request.signal });
+            if (!audioResponse.ok) {
+                throw new Error(
+                    `Failed to fetch audio file: ${audioResponse.statusText}`
+                );
+            }
+            // OpenAI SDK now supports passing a fetch Response directly
+            audio = audioResponse;
         }
 
-        // OpenAI SDK now supports passing a fetch Response directly
-        console.log('Sending request to OpenAI API via SDK with fetch Response');
-        const transcription = await openai.audio.transcriptions.create({
-            file: audioResponse,
-            model: 'whisper-1',
-            response_format: 'verbose_json',
-            timestamp_granularities: ['segment'],
-        });
+        console.log(`Sending request to ${transcriptionProvider.id} transcription provider`);
+        const transcription = await transcriptionProvider.transcribe(audio);
 
         console.log('Transcription successful');
         return NextResponse.json(transcription);
     } catch (error) {
+        if (request.signal.aborted) {
+            console.log('Transcription request cancelled by the client');
+            return NextResponse.json({ error: 'Request cancelled' }, { status: 499 });
+        }
+
         console.error('Transcription error:', error);
 
         const errorMessage =
             error instanceof Error ? error.message : 'Unknown error during transcription';
 
         let statusCode = 500;
-        if (error instanceof OpenAI.APIError) {
+        if (error instanceof AudioUploadError) {
+            statusCode = error.status;
+        } else if (error instanceof OpenAI.APIError) {
             statusCode = error.status || 500;
         } else if (error instanceof Error && errorMessage.includes('401')) {
             statusCode = 401;
@@ -76,6 +115,8 @@ export async function POST(request: NextRequest) {
             },
             { status: statusCode }
         );
+    } finally {
+        if (audioFilePath) await removeAudioFile(audioFilePath);
     }
 }
 
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { AudioUploadError, parseAudioUpload, removeAudioFile, storeLocalAudio } from '@/lib/storage/server-audio-storage';
+
+// Stores audio on the server's filesystem for the "local" audio storage backend
+export async function POST(request: Request): Promise<NextResponse> {
+    // Don't accept uploads to disk unless this deployment chose the local backend
+    if (process.env.NEXT_PUBLIC_AUDIO_STORAGE !== 'local') {
+        return NextResponse.json(
+            { error: 'Local audio storage is not enabled' },
+            { status: 404 },
+        );
+    }
+
+    let filePath: string | null = null;
+    try {
+        ({ filePath } = await parseAudioUpload(request));
+        const key = await storeLocalAudio(filePath);
+        filePath = null;
+
+        return NextResponse.json({ key });
+    } catch (error) {
+        console.error('Local audio upload failed:', error);
+        return NextResponse.json(
+            { error: (error as Error).message },
+            { status: error instanceof AudioUploadError ? error.status : 500 },
+        );
+    } finally {
+        if (filePath) await removeAudioFile(filePath);
+    }
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import ApiKeyConfig from '@/components/ApiKeyConfig';
 import ProcessingLog from '@/components/ProcessingLog';
 import Header from '@/components/layout/Header';
@@ -8,8 +8,11 @@ import VideoUploadSection from '@/components/VideoUploadSection';
 import ConfigurationSection from '@/components/ConfigurationSection';
 import ResultsSection from '@/components/ResultsSection';
 import SegmentReviewScreen from '@/components/SegmentReviewScreen';
-import { ApiKeyConfig as ApiKeyConfigType, HighlightConfig as HighlightConfigType, ProcessedVideo, VideoMetadata, ProgressState, VideoSegment, TranscriptionResult } from '@/types';
+import ProjectList from '@/components/ProjectList';
+import { ApiKeyConfig as ApiKeyConfigType, HighlightConfig as HighlightConfigType, ProcessedVideo, VideoMetadata, ProgressState, VideoSegment, TranscriptionResult, DroppedSegment, Shot, CacheStatus } from '@/types';
 import { useVideoProcessor } from '@/components/VideoProcessor';
+import { loadProject, saveProject, saveProjectOutputs, saveProjectSource, updateProject } from '@/lib/storage/project-store';
+import { mergeSegmentSuggestions } from '@/lib/utils/segment-selection';
 
 // Basic Modal Component (can be moved to its own file and styled)
 interface ErrorModalProps {
@@ -45,12 +48,20 @@ export default function Home() {
     });
     const [processedVideo, setProcessedVideo] = useState<ProcessedVideo | null>(null);
     const [suggestedSegments, setSuggestedSegments] = useState<VideoSegment[]>([]);
+    const [droppedSegments, setDroppedSegments] = useState<DroppedSegment[]>([]);
+    const [shots, setShots] = useState<Shot[] | undefined>(undefined);
+    const [cacheStatus, setCacheStatus] = useState<CacheStatus | undefined>(undefined);
+    const [forceRefresh, setForceRefresh] = useState(false);
     const [highlightUrls, setHighlightUrls] = useState<Record<string, string>>({});
     const [transcript, setTranscript] = useState<string>('');
     const [transcriptionResult, setTranscriptionResult] = useState<TranscriptionResult | undefined>(undefined);
     const [error, setError] = useState<string | null>(null);
     const [isFileSizeErrorModalOpen, setIsFileSizeErrorModalOpen] = useState(false);
     const [currentStep, setCurrentStep] = useState<'upload' | 'configure' | 'review' | 'results'>('upload');
+    // Id of the saved project for the current video
+    const [projectId, setProjectId] = useState<string | null>(null);
+    // Settles once the project record exists, so updates never run ahead of its creation
+    const projectSaved = useRef<Promise<void>>(Promise.resolve());
 
     // Effect to watch for file size errors and trigger the modal
     useEffect(() => {
@@ -62,6 +73,25 @@ export default function Home() {
         }
     }, [error]);
 
+    // Keep the saved project in sync with the session
+    useEffect(() => {
+        if (!projectId || currentStep === 'upload') return;
+
+        projectSaved.current
+            .then(() => updateProject(projectId, {
+                step: currentStep,
+                videoMetadata,
+                highlightConfig,
+                transcript,
+                transcriptionResult,
+                suggestedSegments,
+                droppedSegments,
+                shots,
+                approvedSegments: processedVideo?.segments,
+            }))
+            .catch(err => console.warn('Could not save project:', err));
+    }, [projectId, currentStep, videoMetadata, highlightConfig, transcript, transcriptionResult, suggestedSegments, droppedSegments, shots, processedVideo]);
+
     const closeFileSizeErrorModal = () => {
         setIsFileSizeErrorModalOpen(false);
         setError(null); // Clear the main error state when modal is closed
@@ -70,6 +100,7 @@ export default function Home() {
     // Always call useVideoProcessor, pass apiKey only if it exists
     const videoProcessor = useVideoProcessor({
         apiKey: apiConfig?.apiKey || '',
+        transcriptionProvider: apiConfig?.transcription,
         videoFile,
         videoMetadata,
         highlightConfig,
@@ -77,6 +108,9 @@ export default function Home() {
         onProcessingComplete: (video: ProcessedVideo, transcriptText: string, fullTranscriptionResult?: TranscriptionResult) => {
             setError(null); // Clear any previous errors on successful completion
             setSuggestedSegments(video.segments);
+            setDroppedSegments(video.droppedSegments || []);
+            setShots(video.shots);
+            setCacheStatus(video.cacheStatus);
             setTranscript(transcriptText);
             setTranscriptionResult(fullTranscriptionResult);
             setCurrentStep('review');
@@ -96,6 +130,81 @@ export default function Home() {
         setVideoUrl(url);
         setVideoMetadata(metadata);
         setCurrentStep('configure');
+
+        const id = crypto.randomUUID();
+        setProjectId(id);
+        projectSaved.current = createProject(id, file, metadata).catch(err => console.warn('Could not save project:', err));
+    };
+
+    const createProject = async (id: string, file: File, metadata: VideoMetadata) => {
+        const now = Date.now();
+        await saveProject({
+            id,
+            name: file.name,
+            createdAt: now,
+            updatedAt: now,
+            step: 'configure',
+            sourceFileName: file.name,
+            sourceFileSize: file.size,
+            hasSourceFile: false,
+            videoMetadata: metadata,
+            highlightConfig,
+            suggestedSegments: [],
+            outputKeys: [],
+        });
+
+        // Storing a large video takes a while, and the record can take updates in the meantime
+        saveProjectSource(id, file)
+            .then(hasSourceFile => updateProject(id, { hasSourceFile }))
+            .catch(err => console.warn('Could not save project video:', err));
+    };
+
+    // Errors are thrown so the project list can show them next to the project
+    const handleResumeProject = async (id: string) => {
+        const loaded = await loadProject(id);
+        if (!loaded) {
+            throw new Error('This project no longer exists.');
+        }
+
+        const { record, sourceFile, outputs } = loaded;
+        if (!sourceFile) {
+            throw new Error(`The video "${record.sourceFileName}" could not be stored in the browser, so this project can't be resumed.`);
+        }
+
+        // Free the URLs of the video being replaced
+        if (videoUrl) URL.revokeObjectURL(videoUrl);
+        Object.values(highlightUrls).forEach(url => URL.revokeObjectURL(url));
+
+        setVideoFile(sourceFile);
+        setVideoUrl(URL.createObjectURL(sourceFile));
+        setVideoMetadata(record.videoMetadata);
+        setHighlightConfig(record.highlightConfig);
+        setTranscript(record.transcript || '');
+        setTranscriptionResult(record.transcriptionResult);
+        setSuggestedSegments(record.suggestedSegments);
+        setDroppedSegments(record.droppedSegments || []);
+        setShots(record.shots);
+        setCacheStatus(undefined);
+        setProcessedVideo(record.approvedSegments ? {
+            id: record.id,
+            originalFile: sourceFile,
+            segments: record.approvedSegments,
+            highlightConfig: record.highlightConfig,
+            transcript: record.transcript,
+            transcriptionResult: record.transcriptionResult,
+        } : null);
+
+        const outputUrls: Record<string, string> = {};
+        Object.entries(outputs).forEach(([key, blob]) => {
+            outputUrls[key] = URL.createObjectURL(blob);
+        });
+        setHighlightUrls(outputUrls);
+
+        // Fall back to an earlier step if the saved state is missing what the recorded step needs
+        const step = record.step === 'results' && !record.approvedSegments ? 'review' : record.step;
+        projectSaved.current = Promise.resolve();
+        setProjectId(record.id);
+        setCurrentStep(step === 'review' && record.suggestedSegments.length === 0 ? 'configure' : step);
     };
 
     const handleConfigChange = (config: HighlightConfigType) => {
@@ -103,8 +212,24 @@ export default function Home() {
     };
 
     const handleProcessVideo = async () => {
-        if (!videoProcessor || !apiConfig?.apiKey) return;
-        await videoProcessor.processVideo();
+        if (!videoProcessor || !apiConfig) return;
+        await videoProcessor.processVideo({ forceRefresh });
+    };
+
+    const handleReanalyze = async (config: HighlightConfigType, strategy: 'merge' | 'replace', current: VideoSegment[]) => {
+        if (!transcriptionResult) throw new Error('No transcript to analyze');
+
+        const result = await videoProcessor.reanalyzeSegments(config, transcriptionResult, shots);
+        const segments = strategy === 'merge'
+            ? mergeSegmentSuggestions(current, result.segments, config.maxDuration)
+            : result.segments;
+
+        // The project keeps the updated suggestions so resuming shows them
+        setSuggestedSegments(segments);
+        setHighlightConfig(config);
+        setDroppedSegments(result.dropped);
+        setCacheStatus(undefined);
+        return segments;
     };
 
     const handleApproveSegments = (segments: VideoSegment[]) => {
@@ -117,11 +242,12 @@ export default function Home() {
         // Create the processed video object using the approved segments
         if (videoFile) {
             const processedVideoWithApprovedSegments: ProcessedVideo = {
-                id: processedVideo?.id || crypto.randomUUID(),
+                id: projectId || processedVideo?.id || crypto.randomUUID(),
                 originalFile: videoFile,
                 segments: segmentsWithPlatform,
                 highlightConfig,
-                transcript
+                transcript,
+                transcriptionResult
             };
 
             setProcessedVideo(processedVideoWithApprovedSegments);
@@ -130,33 +256,35 @@ export default function Home() {
     };
 
     const handleCombineSegments = async () => {
-        if (!videoProcessor || !processedVideo || !apiConfig?.apiKey) return;
+        if (!videoProcessor || !processedVideo || !apiConfig) return;
 
         try {
-            let outputUrls: Record<string, string> = {};
+            let outputs: Record<string, Blob> | null | undefined;
 
             // Use format-specific generation based on the selected targetPlatform
             if (processedVideo.highlightConfig?.targetPlatform) {
                 console.log(`Using format-specific video generation for ${processedVideo.highlightConfig.targetPlatform}`);
-                const formatOutputs = await videoProcessor.createFormatSpecificVideos(processedVideo);
-
-                // Convert Blobs to URLs
-                if (formatOutputs) {
-                    Object.entries(formatOutputs).forEach(([key, blob]) => {
-                        outputUrls[key] = URL.createObjectURL(blob);
-                    });
-                }
+                outputs = await videoProcessor.createFormatSpecificVideos(processedVideo);
             } else {
                 // Fallback to the original combine method if no target platform specified
                 console.log('Using standard segment combination');
-                const combined = await videoProcessor.combineSegments(processedVideo);
-                if (combined) {
-                    outputUrls = combined;
-                }
+                outputs = await videoProcessor.combineSegments(processedVideo);
             }
 
-            if (Object.keys(outputUrls).length > 0) {
+            if (outputs && Object.keys(outputs).length > 0) {
+                // Convert Blobs to URLs
+                const outputUrls: Record<string, string> = {};
+                Object.entries(outputs).forEach(([key, blob]) => {
+                    outputUrls[key] = URL.createObjectURL(blob);
+                });
                 setHighlightUrls(outputUrls);
+
+                if (projectId) {
+                    const savedOutputs = outputs;
+                    projectSaved.current
+                        .then(() => saveProjectOutputs(projectId, savedOutputs))
+                        .catch(err => console.warn('Could not save project outputs:', err));
+                }
             }
         } catch (err) {
             console.error('Error creating videos:', err);
@@ -165,23 +293,39 @@ export default function Home() {
     };
 
     const handleStartOver = () => {
+        videoProcessor.cancelProcessing();
+        // Free the source and output blobs of the video being left
+        if (videoUrl) URL.revokeObjectURL(videoUrl);
+        Object.values(highlightUrls).forEach(url => URL.revokeObjectURL(url));
+
         setVideoFile(null);
         setVideoUrl('');
         setProcessedVideo(null);
+        setTranscript('');
+        setTranscriptionResult(undefined);
         setSuggestedSegments([]);
+        setDroppedSegments([]);
+        setShots(undefined);
+        setCacheStatus(undefined);
         setHighlightUrls({});
         setProgress({ status: 'idle', progress: 0 });
+        setProjectId(null);
         setCurrentStep('upload');
+        // Nothing from the previous video is needed anymore, so free the FFmpeg workers
+        import('@/lib/utils/ffmpeg-pool').then(({ releaseFFmpegPool }) => releaseFFmpegPool());
     };
 
     const renderMainContent = () => {
         // Step 1: Upload video
         if (currentStep === 'upload') {
             return (
-                <VideoUploadSection
-                    onVideoSelected={handleVideoSelected}
-                    progress={progress}
-                />
+                <>
+                    <VideoUploadSection
+                        onVideoSelected={handleVideoSelected}
+                        progress={progress}
+                    />
+                    <ProjectList onResumeProject={handleResumeProject} />
+                </>
             );
         }
 
@@ -197,6 +341,8 @@ export default function Home() {
                     progress={progress}
                     isLoading={videoProcessor?.isLoading || false}
                     openAIError={isFileSizeErrorModalOpen ? null : error}
+                    forceRefresh={forceRefresh}
+                    onForceRefreshChange={setForceRefresh}
                 />
             );
         }
@@ -209,7 +355,13 @@ export default function Home() {
                     transcript={transcript}
                     transcriptionResult={transcriptionResult}
                     suggestedSegments={suggestedSegments}
+                    droppedSegments={droppedSegments}
+                    durationBudget={highlightConfig.maxDuration}
+                    shots={shots}
+                    cacheStatus={cacheStatus}
                     videoMetadata={videoMetadata}
+                    highlightConfig={highlightConfig}
+                    onReanalyze={transcriptionResult ? handleReanalyze : undefined}
                     onApproveSegments={handleApproveSegments}
                     onStartOver={handleStartOver}
                 />
@@ -226,6 +378,7 @@ export default function Home() {
                     highlightUrls={highlightUrls}
                     progress={progress}
                     onCombineSegments={handleCombineSegments}
+                    onCancel={videoProcessor.cancelProcessing}
                 />
             );
         }
@@ -250,6 +403,8 @@ export default function Home() {
                         <ProcessingLog
                             isProcessing={progress.status !== 'idle' && progress.status !== 'completed' && progress.status !== 'error'}
                             latestMessage={progress.message}
+                            renderEngine={progress.renderEngine}
+                            onCancel={videoProcessor.cancelProcessing}
                         />
                     </>
                 )}
@@ -1,8 +1,9 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { ApiKeyConfig as ApiKeyConfigType } from '@/types'
-import { storeApiKey, getApiKey } from '@/lib/utils/api-utils'
+import { ApiKeyConfig as ApiKeyConfigType, TranscriptionProviderConfig, TranscriptionProviderId } from '@/types'
+import { storeApiKey, getApiKey, storeProviderSettings, getProviderSettings } from '@/lib/utils/api-utils'
+import { BROWSER_WHISPER_MODELS, DEFAULT_BROWSER_WHISPER_MODEL } from '@/lib/utils/browser-transcription'
 
 // Import icons
 import { KeyRound, Eye, EyeOff } from 'lucide-react'
@@ -19,6 +20,10 @@ export default function ApiKeyConfig({
     const [error, setError] = useState<string | null>(null)
     const [success, setSuccess] = useState<string | null>(null)
     const [isValidating, setIsValidating] = useState(false)
+    const [transcriptionProvider, setTranscriptionProvider] = useState<TranscriptionProviderId>('openai')
+    const [transcriptionBaseUrl, setTranscriptionBaseUrl] = useState('')
+    const [transcriptionModel, setTranscriptionModel] = useState('')
+    const [transcriptionApiKey, setTranscriptionApiKey] = useState('')
 
     // Try to load saved API key on component mount
     useEffect(() => {
@@ -26,6 +31,17 @@ export default function ApiKeyConfig({
         if (savedKey) {
             setApiKey(savedKey)
         }
+
+        const savedTranscription = getProviderSettings<Omit<TranscriptionProviderConfig, 'apiKey'>>('transcription')
+        if (savedTranscription) {
+            setTranscriptionProvider(savedTranscription.provider)
+            setTranscriptionBaseUrl(savedTranscription.baseUrl || '')
+            setTranscriptionModel(savedTranscription.model || '')
+        }
+        const savedTranscriptionKey = getApiKey('transcription-server')
+        if (savedTranscriptionKey) {
+            setTranscriptionApiKey(savedTranscriptionKey)
+        }
     }, [])
 
     // Handle API key change
@@ -71,24 +87,63 @@ export default function ApiKeyConfig({
         setError(null)
         setSuccess(null)
 
-        if (!apiKey) {
+        // The OpenAI key is optional when transcription runs on a self-hosted server
+        // and highlights use another provider
+        const requiresOpenAIKey = transcriptionProvider === 'openai'
+        if (!apiKey && requiresOpenAIKey) {
             setError('Please enter your OpenAI API key')
             return
         }
 
-        // Validate the API key
-        const isValid = await validateApiKey(apiKey)
+        if (transcriptionProvider === 'openai-compatible') {
+            if (!transcriptionBaseUrl || !/^https?:\/\//.test(transcriptionBaseUrl)) {
+                setError('Please enter the http(s) base URL of your transcription server')
+                return
+            }
+            if (!transcriptionModel) {
+                setError('Please enter the transcription model name')
+                return
+            }
+        }
+
+        if (apiKey) {
+            // Validate the API key
+            const isValid = await validateApiKey(apiKey)
+
+            if (!isValid) {
+                return // Error is already set in validateApiKey
+            }
 
-        if (!isValid) {
-            return // Error is already set in validateApiKey
+            // Store API key in session storage
+            storeApiKey('openai', apiKey)
         }
 
-        // Store API key in session storage
-        storeApiKey('openai', apiKey)
+        let transcription: TranscriptionProviderConfig
+        if (transcriptionProvider === 'openai') {
+            transcription = { provider: 'openai' }
+        } else if (transcriptionProvider === 'browser') {
+            transcription = { provider: 'browser', model: transcriptionModel || DEFAULT_BROWSER_WHISPER_MODEL }
+        } else {
+            transcription = {
+                provider: 'openai-compatible',
+                baseUrl: transcriptionBaseUrl.replace(/\/+$/, ''),
+                model: transcriptionModel,
+                apiKey: transcriptionApiKey || undefined,
+            }
+        }
+        storeProviderSettings('transcription', {
+            provider: transcription.provider,
+            baseUrl: transcription.baseUrl,
+            model: transcription.model,
+        })
+        if (transcriptionApiKey && transcriptionProvider === 'openai-compatible') {
+            storeApiKey('transcription-server', transcriptionApiKey)
+        }
 
         // Create config object
         const config: ApiKeyConfigType = {
-            apiKey
+            apiKey,
+            transcription
         }
 
         // Notify parent component
@@ -100,9 +155,13 @@ export default function ApiKeyConfig({
     const handleClearApiKey = () => {
         // Clear from session storage
         sessionStorage.removeItem(`apiKey_openai`)
+        sessionStorage.removeItem(`apiKey_transcription-server`)
+        sessionStorage.removeItem(`apiKey_openai-compatible`)
+        sessionStorage.removeItem(`apiKey_anthropic`)
 
         // Reset state
         setApiKey('')
+        setTranscriptionApiKey('')
 
         // Show success message
         setSuccess('API key cleared successfully')
@@ -168,6 +227,11 @@ export default function ApiKeyConfig({
                                 OpenAI Platform
                             </a>
                         </span>
+                        {transcriptionProvider !== 'openai' && (
+                            <p className="mt-1">
+                                Optional with self-hosted or in-browser transcription if you pick another highlights model.
+                            </p>
+                        )}
                         <div className="mt-1 p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-100 dark:border-yellow-800 rounded-md">
                             <p className="font-medium">🔐 Security Tip:</p>
                             <p>For extra safety, we recommend generating a new API key specifically for testing this project, and deleting it afterward.</p>
@@ -175,9 +239,78 @@ export default function ApiKeyConfig({
                     </div>
                 </div>
 
+                <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <label
+                        htmlFor="transcriptionProvider"
+                        className="block text-sm font-medium text-gray-900 dark:text-gray-300 mb-1"
+                    >
+                        Transcription Provider
+                    </label>
+                    <select
+                        id="transcriptionProvider"
+                        value={transcriptionProvider}
+                        onChange={(e) => {
+                            setTranscriptionProvider(e.target.value as TranscriptionProviderId)
+                            // Model names don't carry over between providers
+                            setTranscriptionModel('')
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
+                    >
+                        <option value="openai">OpenAI Whisper</option>
+                        <option value="openai-compatible">OpenAI-compatible server (whisper.cpp, faster-whisper)</option>
+                        <option value="browser">In-browser Whisper (audio never leaves this device)</option>
+                    </select>
+
+                    {transcriptionProvider === 'browser' && (
+                        <div className="mt-3 space-y-3">
+                            <select
+                                value={transcriptionModel || DEFAULT_BROWSER_WHISPER_MODEL}
+                                onChange={(e) => setTranscriptionModel(e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm"
+                            >
+                                {BROWSER_WHISPER_MODELS.map(model => (
+                                    <option key={model.value} value={model.value}>{model.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                                The model is downloaded once and cached by your browser. Transcription is slower than a server, especially without WebGPU.
+                            </p>
+                        </div>
+                    )}
+
+                    {transcriptionProvider === 'openai-compatible' && (
+                        <div className="mt-3 space-y-3">
+                            <input
+                                type="url"
+                                value={transcriptionBaseUrl}
+                                onChange={(e) => setTranscriptionBaseUrl(e.target.value)}
+                                placeholder="Base URL, e.g. http://localhost:8000/v1"
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-gray-600 dark:placeholder:text-gray-400"
+                            />
+                            <input
+                                type="text"
+                                value={transcriptionModel}
+                                onChange={(e) => setTranscriptionModel(e.target.value)}
+                                placeholder="Model, e.g. Systran/faster-whisper-small"
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-gray-600 dark:placeholder:text-gray-400"
+                            />
+                            <input
+                                type="password"
+                                value={transcriptionApiKey}
+                                onChange={(e) => setTranscriptionApiKey(e.target.value)}
+                                placeholder="Server API key (optional)"
+                                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 text-sm placeholder:text-gray-600 dark:placeholder:text-gray-400"
+                            />
+                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                                Audio is sent from this app&apos;s server to the URL above, so it must be reachable from where the app is hosted.
+                            </p>
+                        </div>
+                    )}
+                </div>
+
                 <button
                     type="submit"
-                    disabled={!apiKey || isValidating}
+                    disabled={(!apiKey && transcriptionProvider === 'openai') || isValidating}
                     className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-70 dark:focus:ring-offset-gray-800"
                 >
                     {isValidating ? 'Validating...' : 'Save API Settings'}
@@ -11,6 +11,9 @@ interface ConfigurationSectionProps {
     progress: ProgressState;
     isLoading: boolean;
     openAIError: string | null;
+    // Run every step again instead of reusing cached results for this video
+    forceRefresh: boolean;
+    onForceRefreshChange: (forceRefresh: boolean) => void;
 }
 
 export default function ConfigurationSection({
@@ -21,7 +24,9 @@ export default function ConfigurationSection({
     onGenerateSegments,
     progress,
     isLoading,
-    openAIError
+    openAIError,
+    forceRefresh,
+    onForceRefreshChange
 }: ConfigurationSectionProps) {
     return (
         <div className="w-full">
@@ -54,6 +59,16 @@ export default function ConfigurationSection({
                     />
 
                     <div className="mt-6">
+                        <label className="flex items-center gap-2 mb-3 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={forceRefresh}
+                                onChange={(e) => onForceRefreshChange(e.target.checked)}
+                                disabled={progress.status !== 'idle'}
+                            />
+                            Ignore cached results (re-transcribe and re-analyze)
+                        </label>
+
                         <button
                             onClick={onGenerateSegments}
                             disabled={progress.status !== 'idle' || isLoading}
@@ -1,5 +1,16 @@
-import { useState } from 'react';
-import { HighlightConfig as HighlightConfigType } from '@/types';
+import { useState, useEffect } from 'react';
+import { HighlightConfig as HighlightConfigType, LLMProviderConfig, LLMProviderId } from '@/types';
+import { DEFAULT_BOUNDARY_PADDING } from '@/lib/utils/transcript-utils';
+import { DEFAULT_LLM_CONFIG, LLM_PROVIDERS } from '@/lib/providers/llm-registry';
+import { getApiKey, storeApiKey } from '@/lib/utils/api-utils';
+
+export const HIGHLIGHT_MODE_OPTIONS: { value: HighlightConfigType['mode']; label: string; description: string }[] = [
+    { value: 'highlights', label: 'Key Highlights', description: 'Important and engaging moments' },
+    { value: 'epic', label: 'Epic Moments', description: 'Dramatic and exciting clips' },
+    { value: 'main-ideas', label: 'Main Ideas', description: 'Key concepts and central points' },
+    { value: 'funny', label: 'Funny Moments', description: 'Humorous and entertaining bits' },
+    { value: 'custom', label: 'Custom', description: 'Define your own criteria' },
+];
 
 interface HighlightConfigProps {
     onChange: (config: HighlightConfigType) => void;
@@ -22,13 +33,56 @@ export default function HighlightConfig({ onChange, initialConfig, disabled = fa
         onChange(updatedConfig);
     };
 
-    const modeOptions = [
-        { value: 'highlights', label: 'Key Highlights', description: 'Important and engaging moments' },
-        { value: 'epic', label: 'Epic Moments', description: 'Dramatic and exciting clips' },
-        { value: 'main-ideas', label: 'Main Ideas', description: 'Key concepts and central points' },
-        { value: 'funny', label: 'Funny Moments', description: 'Humorous and entertaining bits' },
-        { value: 'custom', label: 'Custom', description: 'Define your own criteria' },
-    ];
+    const llm = config.llm || DEFAULT_LLM_CONFIG;
+    const llmInfo = LLM_PROVIDERS[llm.provider];
+    const [llmApiKey, setLlmApiKey] = useState('');
+
+    // Load the stored key whenever the highlights provider changes
+    useEffect(() => {
+        if (llm.provider !== 'openai') {
+            setLlmApiKey(getApiKey(llm.provider) || '');
+        }
+    }, [llm.provider]);
+
+    const handleLlmChange = (updates: Partial<LLMProviderConfig>) => {
+        const updatedConfig = { ...config, llm: { ...llm, ...updates } };
+        setConfig(updatedConfig);
+        onChange(updatedConfig);
+    };
+
+    const handleLlmProviderChange = (provider: LLMProviderId) => {
+        handleLlmChange({
+            provider,
+            model: LLM_PROVIDERS[provider].defaultModel,
+            baseUrl: LLM_PROVIDERS[provider].defaultBaseUrl,
+        });
+    };
+
+    const handleLlmApiKeyChange = (value: string) => {
+        setLlmApiKey(value);
+        if (llm.provider !== 'openai') {
+            storeApiKey(llm.provider, value);
+        }
+    };
+
+    const handlePaddingChange = (value: string) => {
+        const updatedConfig = { ...config, boundaryPadding: parseFloat(value) };
+        setConfig(updatedConfig);
+        onChange(updatedConfig);
+    };
+
+    const handleToggle = (key: 'audioAnalysis' | 'sceneDetection' | 'snapToShots' | 'visualAnalysis', value: boolean) => {
+        const updatedConfig = { ...config, [key]: value };
+        setConfig(updatedConfig);
+        onChange(updatedConfig);
+    };
+
+    // Empty selections clear the limit
+    const handleDurationChange = (key: 'maxDuration' | 'minClipDuration' | 'maxClipDuration', value: string) => {
+        const updatedConfig = { ...config, [key]: value ? parseFloat(value) : undefined };
+        setConfig(updatedConfig);
+        onChange(updatedConfig);
+    };
 
     const platformOptions = [
         { value: 'youtube', label: 'YouTube (16:9)', description: 'Best for YouTube and standard video' },
@@ -37,6 +91,45 @@ export default function HighlightConfig({ onChange, initialConfig, disabled = fa
         { value: 'original', label: 'Original Format', description: 'Preserve original video dimensions' },
     ];
 
+    const captionOptions = [
+        { value: 'none', label: 'No Captions', description: 'Export clips without on-screen text' },
+        { value: 'karaoke', label: 'Karaoke', description: 'Words light up as they are spoken' },
+        { value: 'bold-centered', label: 'Bold Centered', description: 'Large uppercase text in the middle' },
+        { value: 'lower-third', label: 'Lower Third', description: 'Boxed subtitles in the bottom corner' },
+    ];
+
+    const paddingOptions = [
+        { value: 0, label: 'None - cut right at the words' },
+        { value: DEFAULT_BOUNDARY_PADDING, label: 'Tight (0.15s)' },
+        { value: 0.4, label: 'Relaxed (0.4s)' },
+        { value: 0.8, label: 'Loose (0.8s)' },
+    ];
+
+    const budgetOptions = [
+        { value: '', label: 'No limit' },
+        { value: 30, label: '30 seconds' },
+        { value: 60, label: '1 minute' },
+        { value: 90, label: '90 seconds' },
+        { value: 180, label: '3 minutes' },
+        { value: 300, label: '5 minutes' },
+        { value: 600, label: '10 minutes' },
+    ];
+
+    const minClipOptions = [
+        { value: '', label: 'Any' },
+        { value: 5, label: '5 seconds' },
+        { value: 10, label: '10 seconds' },
+        { value: 20, label: '20 seconds' },
+    ];
+
+    const maxClipOptions = [
+        { value: '', label: 'Any' },
+        { value: 15, label: '15 seconds' },
+        { value: 30, label: '30 seconds' },
+        { value: 60, label: '60 seconds' },
+        { value: 90, label: '90 seconds' },
+    ];
+
     return (
         <div className="w-full space-y-6">
             <div>
@@ -44,7 +137,7 @@ export default function HighlightConfig({ onChange, initialConfig, disabled = fa
                     Highlight Mode
                 </label>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                    {modeOptions.map((option) => (
+                    {HIGHLIGHT_MODE_OPTIONS.map((option) => (
                         <div
                             key={option.value}
                             className={`
@@ -103,6 +196,224 @@ export default function HighlightConfig({ onChange, initialConfig, disabled = fa
                     ))}
                 </div>
             </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                    AI Model
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    {Object.values(LLM_PROVIDERS).map((option) => (
+                        <div
+                            key={option.id}
+                            className={`
+                border rounded-lg p-4 cursor-pointer transition
+                ${llm.provider === option.id
+                                    ? 'border-blue-500 bg-blue-50'
+                                    : 'border-gray-200 hover:border-gray-300'}
+                ${disabled ? 'opacity-50 pointer-events-none' : ''}
+              `}
+                            onClick={() => !disabled && handleLlmProviderChange(option.id)}
+                        >
+                            <div className="font-medium">{option.label}</div>
+                            <div className="text-sm text-gray-500">{option.description}</div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-3 space-y-3">
+                    <input
+                        type="text"
+                        list="llmModels"
+                        placeholder="Model name"
+                        className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                        value={llm.model}
+                        onChange={(e) => handleLlmChange({ model: e.target.value })}
+                        disabled={disabled}
+                    />
+                    <datalist id="llmModels">
+                        {llmInfo.models.map((model) => (
+                            <option key={model} value={model} />
+                        ))}
+                    </datalist>
+
+                    {llmInfo.requiresBaseUrl && (
+                        <input
+                            type="url"
+                            placeholder={`Base URL, e.g. ${llmInfo.defaultBaseUrl}`}
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            value={llm.baseUrl || ''}
+                            onChange={(e) => handleLlmChange({ baseUrl: e.target.value })}
+                            disabled={disabled}
+                        />
+                    )}
+
+                    {llm.provider !== 'openai' && (
+                        <input
+                            type="password"
+                            placeholder={`${llmInfo.label} API key${llmInfo.requiresApiKey ? '' : ' (optional)'}`}
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            value={llmApiKey}
+                            onChange={(e) => handleLlmApiKeyChange(e.target.value)}
+                            disabled={disabled}
+                        />
+                    )}
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Captions
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {captionOptions.map((option) => (
+                        <div
+                            key={option.value}
+                            className={`
+                border rounded-lg p-4 cursor-pointer transition
+                ${(config.captionStyle || 'none') === option.value
+                                    ? 'border-blue-500 bg-blue-50'
+                                    : 'border-gray-200 hover:border-gray-300'}
+                ${disabled ? 'opacity-50 pointer-events-none' : ''}
+              `}
+                            onClick={() => !disabled && handleChange('captionStyle', option.value)}
+                        >
+                            <div className="font-medium">{option.label}</div>
+                            <div className="text-sm text-gray-500">{option.description}</div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reel Length
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="maxDuration" className="block text-xs text-gray-500 mb-1">Total duration</label>
+                        <select
+                            id="maxDuration"
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            value={config.maxDuration ?? ''}
+                            onChange={(e) => handleDurationChange('maxDuration', e.target.value)}
+                            disabled={disabled}
+                        >
+                            {budgetOptions.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="minClipDuration" className="block text-xs text-gray-500 mb-1">Shortest clip</label>
+                        <select
+                            id="minClipDuration"
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            value={config.minClipDuration ?? ''}
+                            onChange={(e) => handleDurationChange('minClipDuration', e.target.value)}
+                            disabled={disabled}
+                        >
+                            {minClipOptions.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="maxClipDuration" className="block text-xs text-gray-500 mb-1">Longest clip</label>
+                        <select
+                            id="maxClipDuration"
+                            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                            value={config.maxClipDuration ?? ''}
+                            onChange={(e) => handleDurationChange('maxClipDuration', e.target.value)}
+                            disabled={disabled}
+                        >
+                            {maxClipOptions.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                    The highest-rated segments that fit within the total duration are selected
+                </p>
+            </div>
+
+            <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                    <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={config.audioAnalysis !== false}
+                        onChange={(e) => handleToggle('audioAnalysis', e.target.checked)}
+                        disabled={disabled}
+                    />
+                    Use audio cues
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                    Loud moments, laughter and applause in the audio help rank segments, especially for Epic and Funny modes
+                </p>
+            </div>
+
+            <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                    <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={!!config.sceneDetection}
+                        onChange={(e) => handleToggle('sceneDetection', e.target.checked)}
+                        disabled={disabled}
+                    />
+                    Detect shot changes
+                </label>
+                <label className={`flex items-center text-sm text-gray-700 mt-2 ml-6 ${!config.sceneDetection ? 'opacity-50' : ''}`}>
+                    <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={!!config.sceneDetection && !!config.snapToShots}
+                        onChange={(e) => handleToggle('snapToShots', e.target.checked)}
+                        disabled={disabled || !config.sceneDetection}
+                    />
+                    Snap cuts to shot changes
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                    Shows camera changes on the review timeline. Scanning the whole video adds processing time.
+                </p>
+            </div>
+
+            <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                    <input
+                        type="checkbox"
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        checked={!!config.visualAnalysis}
+                        onChange={(e) => handleToggle('visualAnalysis', e.target.checked)}
+                        disabled={disabled}
+                    />
+                    Analyze video frames
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                    Sends sampled keyframes to the AI model so silent or music-heavy footage such as sports and gameplay can be judged by what is on screen. Requires a vision-capable model.
+                </p>
+            </div>
+
+            <div>
+                <label htmlFor="boundaryPadding" className="block text-sm font-medium text-gray-700 mb-1">
+                    Cut Padding
+                </label>
+                <select
+                    id="boundaryPadding"
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    value={config.boundaryPadding ?? DEFAULT_BOUNDARY_PADDING}
+                    onChange={(e) => handlePaddingChange(e.target.value)}
+                    disabled={disabled}
+                >
+                    {paddingOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                    Segments are snapped to pauses between words, keeping this much breathing room around the speech
+                </p>
+            </div>
         </div>
     );
 } 
\ No newline at end of file
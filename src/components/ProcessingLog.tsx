@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
+import { RenderEngine } from '@/types';
 
 interface LogEntry {
     message: string;
@@ -9,11 +10,23 @@ interface LogEntry {
 interface ProcessingLogProps {
     isProcessing: boolean;
     latestMessage?: string;
+    // Engine of the clip being rendered, when a render is running
+    renderEngine?: RenderEngine;
+    // Cancels the running operation; the button is shown while processing
+    onCancel?: () => void;
 }
 
-export default function ProcessingLog({ isProcessing, latestMessage }: ProcessingLogProps) {
+const RENDER_ENGINE_LABELS: Record<RenderEngine, string> = {
+    'webcodecs': 'WebCodecs (hardware encoder)',
+    'smart-cut': 'FFmpeg (smart cut)',
+    'libx264': 'FFmpeg (libx264)',
+};
+
+export default function ProcessingLog({ isProcessing, latestMessage, renderEngine, onCancel }: ProcessingLogProps) {
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const [expanded, setExpanded] = useState(false);
+    // Engine of the latest clip in this run; progress updates after the engine is chosen don't repeat it
+    const [lastRenderEngine, setLastRenderEngine] = useState<RenderEngine | null>(null);
     const logContainerRef = useRef<HTMLDivElement>(null);
     const isFirstRender = useRef(true);
 
@@ -85,6 +98,7 @@ export default function ProcessingLog({ isProcessing, latestMessage }: Processin
     useEffect(() => {
         if (isProcessing && isFirstRender.current) {
             isFirstRender.current = false;
+            setLastRenderEngine(null);
             setLogs(prevLogs => [
                 ...prevLogs,
                 {
@@ -100,6 +114,10 @@ export default function ProcessingLog({ isProcessing, latestMessage }: Processin
         }
     }, [isProcessing]);
 
+    useEffect(() => {
+        if (renderEngine) setLastRenderEngine(renderEngine);
+    }, [renderEngine]);
+
     // Add new log when latestMessage changes
     useEffect(() => {
         if (latestMessage) {
@@ -134,9 +152,28 @@ export default function ProcessingLog({ isProcessing, latestMessage }: Processin
                 <h3 className={`text-sm font-medium ${errorCount > 0 ? 'text-red-700' : 'text-gray-700'}`}>
                     {errorCount > 0 ? `Processing Errors (${errorCount})` : 'Processing Details'} {expanded ? '▼' : '▶'}
                 </h3>
-                <span className="text-xs text-gray-500">
-                    {logs.length} log entries
-                </span>
+                <div className="flex items-center gap-2">
+                    {isProcessing && onCancel && (
+                        <button
+                            onClick={event => {
+                                // Don't toggle the log panel
+                                event.stopPropagation();
+                                onCancel();
+                            }}
+                            className="text-xs px-2 py-0.5 rounded border border-red-300 text-red-700 hover:bg-red-50 transition-colors"
+                        >
+                            Cancel
+                        </button>
+                    )}
+                    {lastRenderEngine && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700" title="Engine used for the latest rendered clip">
+                            {RENDER_ENGINE_LABELS[lastRenderEngine]}
+                        </span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                        {logs.length} log entries
+                    </span>
+                </div>
             </div>
 
             {expanded && (
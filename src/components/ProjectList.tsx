@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { ProjectRecord, deleteProject, duplicateProject, listProjects } from '@/lib/storage/project-store';
+
+interface ProjectListProps {
+    onResumeProject: (id: string) => Promise<void>;
+}
+
+const STEP_LABELS: Record<ProjectRecord['step'], string> = {
+    configure: 'Configuring',
+    review: 'Reviewing segments',
+    results: 'Rendered',
+};
+
+export default function ProjectList({ onResumeProject }: ProjectListProps) {
+    const [projects, setProjects] = useState<ProjectRecord[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refreshProjects = async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (err) {
+            // IndexedDB is unavailable in some private browsing modes
+            console.warn('Could not load saved projects:', err);
+        }
+    };
+
+    useEffect(() => {
+        refreshProjects();
+    }, []);
+
+    // Run an action on a project, showing its error in the list
+    const runAction = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDuplicate = (id: string) => runAction(id, async () => {
+        await duplicateProject(id);
+        await refreshProjects();
+    });
+
+    const handleDelete = (project: ProjectRecord) => {
+        if (!window.confirm(`Delete "${project.name}"? Its stored video and outputs will be removed.`)) return;
+        runAction(project.id, async () => {
+            await deleteProject(project.id);
+            await refreshProjects();
+        });
+    };
+
+    if (projects.length === 0) return null;
+
+    return (
+        <div className="max-w-2xl mx-auto w-full mt-10">
+            <h2 className="text-xl font-bold mb-4">Saved Projects</h2>
+
+            {error && (
+                <div className="p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                    {error}
+                </div>
+            )}
+
+            <ul className="space-y-3">
+                {projects.map(project => {
+                    const segmentCount = project.approvedSegments?.length ?? project.suggestedSegments.length;
+                    const isBusy = busyId === project.id;
+
+                    return (
+                        <li key={project.id} className="p-4 bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-lg flex items-center justify-between gap-4">
+                            <div className="min-w-0">
+                                <p className="font-medium truncate" title={project.name}>{project.name}</p>
+                                <p className="text-sm text-gray-500">
+                                    {STEP_LABELS[project.step]}
+                                    {segmentCount > 0 && ` · ${segmentCount} segment${segmentCount === 1 ? '' : 's'}`}
+                                    {' · '}{new Date(project.updatedAt).toLocaleString()}
+                                </p>
+                                {!project.hasSourceFile && (
+                                    <p className="text-xs text-amber-600 mt-1">Video not stored; this project can&apos;t be resumed.</p>
+                                )}
+                            </div>
+
+                            <div className="flex gap-2 shrink-0">
+                                <button
+                                    onClick={() => runAction(project.id, () => onResumeProject(project.id))}
+                                    disabled={isBusy || !project.hasSourceFile}
+                                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                                >
+                                    Resume
+                                </button>
+                                <button
+                                    onClick={() => handleDuplicate(project.id)}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-sm bg-gray-200 text-gray-800 rounded hover:bg-gray-300 disabled:opacity-50"
+                                >
+                                    Duplicate
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(project)}
+                                    disabled={isBusy}
+                                    className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
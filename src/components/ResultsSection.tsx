@@ -1,7 +1,10 @@
+import { useMemo } from 'react';
 import { ProcessedVideo, ProgressState, VideoSegment } from '@/types';
 import SegmentsGallery from './SegmentsGallery';
 import VideoPlayer from './VideoPlayer';
 import { useSegmentsCompletionStatus } from '@/hooks/useSegmentsCompletionStatus';
+import { getCaptionOptions, downloadSubtitles } from '@/lib/utils/caption-utils';
+import { formatEta } from '@/lib/utils/progress-utils';
 
 interface ResultsSectionProps {
     processedVideo: ProcessedVideo;
@@ -10,6 +13,8 @@ interface ResultsSectionProps {
     highlightUrls: Record<string, string>;
     progress: ProgressState;
     onCombineSegments: () => void;
+    // Cancels the highlight video render
+    onCancel?: () => void;
 }
 
 export default function ResultsSection({
@@ -18,7 +23,8 @@ export default function ResultsSection({
     onStartOver,
     highlightUrls,
     progress,
-    onCombineSegments
+    onCombineSegments,
+    onCancel
 }: ResultsSectionProps) {
     // Use string comparison for status checking
     const isProcessing = progress.status === 'processing';
@@ -26,6 +32,9 @@ export default function ResultsSection({
     // Track if all segments are ready
     const areSegmentsReady = useSegmentsCompletionStatus();
 
+    // Keep the caption options stable so segment previews don't restart on re-render
+    const captions = useMemo(() => getCaptionOptions(processedVideo), [processedVideo]);
+
     return (
         <div className="w-full">
             <h2 className="text-2xl font-bold mb-6">Your Highlights</h2>
@@ -72,6 +81,8 @@ export default function ResultsSection({
                 <SegmentsGallery
                     segments={processedVideo.segments}
                     originalVideo={processedVideo.originalFile}
+                    captions={captions}
+                    transcriptionResult={processedVideo.transcriptionResult}
                 />
             )}
 
@@ -104,6 +115,20 @@ export default function ResultsSection({
                                             Download {format.charAt(0).toUpperCase() + format.slice(1)} Highlight
                                         </a>
                                     ))}
+                                    {processedVideo.transcriptionResult && (['srt', 'vtt'] as const).map(subtitleFormat => (
+                                        <button
+                                            key={subtitleFormat}
+                                            onClick={() => downloadSubtitles(
+                                                processedVideo.transcriptionResult!,
+                                                processedVideo.segments,
+                                                subtitleFormat,
+                                                `highlight-${Object.keys(highlightUrls)[0]}`
+                                            )}
+                                            className="py-2 px-4 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                                        >
+                                            Download .{subtitleFormat} Subtitles
+                                        </button>
+                                    ))}
                                 </div>
                             </div>
                         </div>
@@ -114,7 +139,18 @@ export default function ResultsSection({
                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                         </svg>
-                        <span className="text-blue-700">Generating highlight video... {Math.round(progress.progress)}%</span>
+                        <span className="text-blue-700">
+                            Generating highlight video... {Math.round(progress.progress)}%
+                            {progress.etaSeconds !== undefined && ` (${formatEta(progress.etaSeconds)})`}
+                        </span>
+                        {onCancel && (
+                            <button
+                                onClick={onCancel}
+                                className="ml-auto py-1 px-3 border border-blue-300 rounded-md text-blue-700 hover:bg-blue-100 transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 ) : (
                     <div className="p-4 bg-white border border-gray-200 rounded-lg">
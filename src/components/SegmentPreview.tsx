@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
-import { VideoSegment } from '@/types';
+import { TranscriptionResult, VideoSegment } from '@/types';
 import VideoPlayer from '@/components/VideoPlayer';
+import { CaptionOptions, SubtitleFormat, downloadSubtitles } from '@/lib/utils/caption-utils';
+import { formatEta } from '@/lib/utils/progress-utils';
 
 // Declare global window properties
 declare global {
@@ -47,97 +49,33 @@ interface SegmentPreviewProps {
     segment: VideoSegment;
     index: number;
     originalVideo: File;
+    captions?: CaptionOptions;
+    transcriptionResult?: TranscriptionResult;
     ready?: boolean; // New prop to control when processing starts
 }
 
-// Create a task manager for sequential processing
-type Task = {
-    id: number;
-    execute: () => Promise<void>;
-    onComplete?: () => void;
-    onFailure?: (error: unknown) => void;
-    priority?: number; // Lower number = higher priority
-};
-
-// Global task queue and processing state
-const taskQueue: Task[] = [];
-let isProcessing = false;
-let nextTaskId = 1;
-
-// Process one task at a time with retries
-async function processNextTask() {
-    if (isProcessing || taskQueue.length === 0) return;
-
-    isProcessing = true;
-
-    // Sort by priority (if set)
-    taskQueue.sort((a, b) => (a.priority || 999) - (b.priority || 999));
-
-    const currentTask = taskQueue.shift();
-
-    if (currentTask) {
-        console.log(`Processing task ID: ${currentTask.id}${currentTask.priority ? ` (priority: ${currentTask.priority})` : ''}`);
-
-        let success = false;
-        let retries = 0;
-        const maxRetries = 1;
-
-        while (!success && retries <= maxRetries) {
-            try {
-                if (retries > 0) {
-                    console.log(`Retry attempt ${retries} for task ID: ${currentTask.id}`);
-                    // Small delay before retry
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                }
-
-                await currentTask.execute();
-                console.log(`Completed task ID: ${currentTask.id}`);
-                // Call the completion callback if provided
-                currentTask.onComplete?.();
-                success = true;
-            } catch (error) {
-                console.error(`Error in task ID: ${currentTask.id}:`, error);
-                retries++;
-
-                if (retries > maxRetries) {
-                    console.error(`Task ID: ${currentTask.id} failed after ${maxRetries} retries`);
-                    // Call failure callback if provided
-                    currentTask.onFailure?.(error);
-                }
-            }
-        }
-
-        isProcessing = false;
-        // Continue with next task with a small delay
-        setTimeout(processNextTask, 100); // Small delay to prevent CPU hogging
-    } else {
-        isProcessing = false;
-    }
-}
-
-// Allow canceling a task by ID
-function cancelTask(id: number): boolean {
-    const index = taskQueue.findIndex(task => task.id === id);
-    if (index !== -1) {
-        taskQueue.splice(index, 1);
-        console.log(`Canceled task ID: ${id}`);
-        return true;
-    }
-    return false;
-}
-
-export default function SegmentPreview({ segment, index, originalVideo, ready = false }: SegmentPreviewProps) {
+export default function SegmentPreview({ segment, index, originalVideo, captions, transcriptionResult, ready = false }: SegmentPreviewProps) {
     const [isLoading, setIsLoading] = useState(true);
     const [loadingProgress, setLoadingProgress] = useState(0);
     const [loadingStatus, setLoadingStatus] = useState(ready ? 'Waiting in queue...' : 'Queued...');
     const [segmentUrl, setSegmentUrl] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
-    const taskId = useRef<number>(nextTaskId++);
+    const abortController = useRef<AbortController | null>(null);
     const segmentInfo = useRef<string>(`${segment.start.toFixed(2)}-${segment.end.toFixed(2)}`);
     const isMounted = useRef<boolean>(true);
     const processingStarted = useRef<boolean>(false);
 
+    // Cancel the render when the preview goes away, which frees its FFmpeg worker
+    useEffect(() => {
+        return () => {
+            abortController.current?.abort();
+            abortController.current = null;
+            // Lets a remount (e.g. in Strict Mode) start the render again
+            processingStarted.current = false;
+        };
+    }, []);
+
     // Update loading status when ready changes
     useEffect(() => {
         if (ready && isLoading) {
@@ -155,18 +93,18 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
         }
 
         // Function to generate a video for this segment
-        const generateSegmentVideo = async () => {
+        const generateSegmentVideo = async (signal: AbortSignal): Promise<boolean> => {
             try {
-                if (!isMounted.current) return;
+                if (!isMounted.current) return false;
 
                 setIsLoading(true);
                 setLoadingStatus('Loading FFmpeg...');
                 setLoadingProgress(10);
 
-                // Make sure we have a fresh FFmpeg instance
-                const { createHighlightVideo, calculateAdaptiveDimensions, releaseFFmpeg } = await import('@/lib/utils/video-utils');
+                const { createHighlightVideo, calculateAdaptiveDimensions } = await import('@/lib/utils/video-utils');
+                const { shouldTrackSpeaker } = await import('@/lib/utils/reframe-utils');
 
-                if (!isMounted.current) return;
+                if (!isMounted.current) return false;
                 setLoadingProgress(30);
                 console.log(`Segment ${index + 1} (${segmentInfo.current}): Starting processing`);
                 console.log(`Segment ${index + 1} has targetPlatform: ${segment.targetPlatform || 'not set'}`);
@@ -221,12 +159,19 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
                         [segment],
                         'mp4',
                         targetDimensions,
-                        (step, progress, detail) => {
+                        (step, progress, detail, etaSeconds) => {
                             if (isMounted.current) {
-                                setLoadingStatus(detail || step);
+                                const status = detail || step;
+                                setLoadingStatus(etaSeconds !== undefined ? `${status} (${formatEta(etaSeconds)})` : status);
                                 // Scale progress from 40-100%
                                 setLoadingProgress(40 + (progress * 0.6));
                             }
+                        },
+                        {
+                            trackSpeaker: shouldTrackSpeaker(segment.targetPlatform),
+                            captions,
+                            sourceDimensions: { width: videoMetadata.width, height: videoMetadata.height },
+                            signal
                         }
                     );
 
@@ -260,22 +205,19 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
                             }
                         }, 0);
                     }
+                    return true;
                 } catch (err) {
+                    if (signal.aborted) {
+                        console.log(`Segment ${index + 1} (${segmentInfo.current}): Rendering cancelled`);
+                        return false;
+                    }
                     console.error(`Error for segment ${index + 1} (${segmentInfo.current}):`, err);
 
                     if (isMounted.current) {
                         setError(`Failed to create segment: ${err instanceof Error ? err.message : String(err)}`);
                         setIsLoading(false);
                     }
-
-                    // Make sure FFmpeg resources are released on error
-                    try {
-                        await releaseFFmpeg();
-                    } catch (releaseErr) {
-                        console.warn('Error releasing FFmpeg resources:', releaseErr);
-                    }
-
-                    throw err; // Re-throw to trigger task retry
+                    return false;
                 }
             } catch (err) {
                 console.error(`Fatal error for segment ${index + 1} (${segmentInfo.current}):`, err);
@@ -284,42 +226,24 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
                     setError(`Error: ${err instanceof Error ? err.message : String(err)}`);
                     setIsLoading(false);
                 }
-
-                throw err; // Re-throw to trigger task retry
+                return false;
             }
         };
 
-        // Only add task to queue if ready is true and we haven't started processing yet
+        // Start rendering once ready; the FFmpeg pool runs as many segments at once as the device allows
         if (ready && !processingStarted.current) {
             processingStarted.current = true;
 
-            // Generate a unique task ID that includes segment information
-            const uniqueTaskId = `${taskId.current}-seg${index}-${Date.now()}`;
-            taskId.current = parseInt(uniqueTaskId);
+            const controller = new AbortController();
+            abortController.current = controller;
 
-            // Add this task to the queue
-            const task: Task = {
-                id: taskId.current,
-                execute: generateSegmentVideo,
-                onComplete: () => {
-                    console.log(`Task for segment ${index + 1} completed successfully`);
+            console.log(`Submitting segment ${index + 1} (${segmentInfo.current}) for rendering`);
+            generateSegmentVideo(controller.signal).then(succeeded => {
+                if (succeeded) {
+                    console.log(`Segment ${index + 1} completed successfully`);
                     updateSegmentCompletionStatus(true);
-                },
-                onFailure: (error) => {
-                    if (isMounted.current) {
-                        setError(`Processing failed after retries: ${error instanceof Error ? error.message : String(error)}`);
-                        setIsLoading(false);
-                    }
-                },
-                // Give earlier segments higher priority
-                priority: index
-            };
-
-            console.log(`Adding segment ${index + 1} (${segmentInfo.current}) to queue, task ID: ${taskId.current}`);
-            taskQueue.push(task);
-
-            // Try to start processing the queue
-            processNextTask();
+                }
+            });
         } else if (!ready) {
             console.log(`Segment ${index + 1} waiting for ready signal before processing`);
         }
@@ -333,11 +257,8 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
             if (segmentUrl) {
                 URL.revokeObjectURL(segmentUrl);
             }
-
-            // Remove this task from the queue if it hasn't started yet
-            cancelTask(taskId.current);
         };
-    }, [segment, segment.targetPlatform, index, originalVideo, ready, segmentUrl]);
+    }, [segment, segment.targetPlatform, index, originalVideo, captions, ready, segmentUrl]);
 
     const formatTime = (seconds: number) => {
         const date = new Date(seconds * 1000);
@@ -357,6 +278,16 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
         document.body.removeChild(a);
     };
 
+    const handleDownloadSubtitles = (format: SubtitleFormat) => {
+        if (!transcriptionResult) return;
+        downloadSubtitles(
+            transcriptionResult,
+            [segment],
+            format,
+            `segment-${index + 1}-${formatTime(segment.start)}-${formatTime(segment.end)}`
+        );
+    };
+
     // Get aspect ratio class based on platform
     const getAspectRatioClass = () => {
         switch (segment.targetPlatform) {
@@ -426,6 +357,22 @@ export default function SegmentPreview({ segment, index, originalVideo, ready =
                 >
                     Download
                 </button>
+                {transcriptionResult && (
+                    <>
+                        <button
+                            onClick={() => handleDownloadSubtitles('srt')}
+                            className="py-2 px-3 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition"
+                        >
+                            SRT
+                        </button>
+                        <button
+                            onClick={() => handleDownloadSubtitles('vtt')}
+                            className="py-2 px-3 bg-gray-100 text-gray-800 rounded-md hover:bg-gray-200 transition"
+                        >
+                            VTT
+                        </button>
+                    </>
+                )}
             </div>
         </div>
     );
@@ -1,13 +1,29 @@
 import { useState, useMemo, useRef, useEffect, useCallback } from 'react';
-import { VideoSegment, VideoMetadata, TranscriptionResult } from '@/types';
+import { VideoSegment, VideoMetadata, TranscriptionResult, DroppedSegment, Shot, CacheStatus, HighlightConfig } from '@/types';
 import VideoPlayer from '@/components/VideoPlayer';
+import { HIGHLIGHT_MODE_OPTIONS } from '@/components/HighlightConfig';
+import { getTotalDuration } from '@/lib/utils/segment-selection';
+import { getShotBoundaries, snapSegmentsToShots } from '@/lib/utils/scene-utils';
 
 interface SegmentReviewScreenProps {
     videoUrl: string;
     transcript: string;
     transcriptionResult?: TranscriptionResult;
     suggestedSegments: VideoSegment[];
+    // Suggestions discarded by validation, shown so the user knows why they are missing
+    droppedSegments?: DroppedSegment[];
+    // Maximum total length of the reel in seconds
+    durationBudget?: number;
+    // Shot list from scene detection, shown on the timeline
+    shots?: Shot[];
+    // Which results were reused from an earlier run of the same video
+    cacheStatus?: CacheStatus;
     videoMetadata: VideoMetadata | null;
+    // Settings of the analysis that produced the suggestions
+    highlightConfig: HighlightConfig;
+    // Run the analysis again on the existing transcript, merge or replace the current
+    // segments with the new suggestions and return the result
+    onReanalyze?: (config: HighlightConfig, strategy: 'merge' | 'replace', current: VideoSegment[]) => Promise<VideoSegment[]>;
     onApproveSegments: (segments: VideoSegment[]) => void;
     onStartOver: () => void;
 }
@@ -17,7 +33,13 @@ export default function SegmentReviewScreen({
     transcript,
     transcriptionResult,
     suggestedSegments,
+    droppedSegments = [],
+    durationBudget,
+    shots,
+    cacheStatus,
     videoMetadata,
+    highlightConfig,
+    onReanalyze,
     onApproveSegments,
     onStartOver
 }: SegmentReviewScreenProps) {
@@ -29,6 +51,10 @@ export default function SegmentReviewScreen({
     const [validationError, setValidationError] = useState<string | null>(null);
     const videoRef = useRef<HTMLVideoElement | null>(null);
     const [segmentPlaybackActive, setSegmentPlaybackActive] = useState(false);
+    const [reanalyzeMode, setReanalyzeMode] = useState<HighlightConfig['mode']>(highlightConfig.mode);
+    const [reanalyzePrompt, setReanalyzePrompt] = useState(highlightConfig.customPrompt || '');
+    const [isReanalyzing, setIsReanalyzing] = useState(false);
+    const [reanalyzeError, setReanalyzeError] = useState<string | null>(null);
 
     // Format transcript for better readability
     const formattedTranscript = useMemo(() => {
@@ -104,7 +130,7 @@ export default function SegmentReviewScreen({
             const newSegments = [...prev];
 
             // Create the updated segment
-            const updatedSegment = { ...newSegments[index], ...updates };
+            const updatedSegment = { ...newSegments[index], ...updates, edited: true };
 
             // If updating start time, ensure end time is at least 1 second later
             if ('start' in updates && updatedSegment.end <= updatedSegment.start) {
@@ -167,7 +193,8 @@ export default function SegmentReviewScreen({
         const newSegment: VideoSegment = {
             start: 0,
             end: Math.min(10, videoDuration),
-            description: "New segment"
+            description: "New segment",
+            edited: true
         };
 
         setSegments(prev => [...prev, newSegment]);
@@ -196,7 +223,7 @@ export default function SegmentReviewScreen({
 
         setSegments(prev => {
             const newSegments = [...prev];
-            const segment = { ...newSegments[index] };
+            const segment = { ...newSegments[index], edited: true };
             const maxDuration = videoMetadata?.duration || 3600;
 
             if (field === 'start') {
@@ -261,6 +288,23 @@ export default function SegmentReviewScreen({
         }
     };
 
+    // Run the analysis with the chosen mode and merge or replace the current segments
+    const handleReanalyze = async (strategy: 'merge' | 'replace') => {
+        if (!onReanalyze) return;
+
+        setIsReanalyzing(true);
+        setReanalyzeError(null);
+        try {
+            const updated = await onReanalyze({ ...highlightConfig, mode: reanalyzeMode, customPrompt: reanalyzePrompt }, strategy, segments);
+            setSegments(updated.map(segment => ({ ...segment })));
+            setCurrentSegment(null);
+        } catch (err) {
+            setReanalyzeError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setIsReanalyzing(false);
+        }
+    };
+
     // Check if segments overlap or have other issues - wrapped in useCallback
     const validateSegments = useCallback(() => {
         // Reset validation error
@@ -281,6 +325,12 @@ export default function SegmentReviewScreen({
             }
         }
 
+        // The total must fit in the reel length chosen in the configuration
+        if (durationBudget && getTotalDuration(segments) > durationBudget) {
+            setValidationError(`The selected segments are longer than the ${formatTime(durationBudget)} reel length. Shorten or remove segments to fit.`);
+            return false;
+        }
+
         // Sort segments by start time
         const sortedSegments = [...segments].sort((a, b) => a.start - b.start);
 
@@ -293,7 +343,7 @@ export default function SegmentReviewScreen({
         }
 
         return true;
-    }, [segments]);
+    }, [segments, durationBudget]);
 
     // Play the current segment from start to end
     const playCurrentSegment = () => {
@@ -312,6 +362,9 @@ export default function SegmentReviewScreen({
 
     const isValid = !validationError;
     const maxDuration = videoMetadata?.duration || 3600;
+    const totalDuration = getTotalDuration(segments);
+    const shotBoundaries = shots ? getShotBoundaries(shots) : [];
+    const toTimelinePercent = (time: number) => `${Math.min(100, Math.max(0, time / maxDuration * 100))}%`;
 
     return (
         <div className="w-full">
@@ -343,11 +396,41 @@ export default function SegmentReviewScreen({
                             </div>
                         )}
                     </div>
+
+                    <div className="mb-4">
+                        <div className="flex justify-between text-xs text-gray-500 mb-1">
+                            <span>Timeline</span>
+                            {shots && <span>{shots.length} shots</span>}
+                        </div>
+                        <div className="relative h-8 bg-gray-100 rounded">
+                            {segments.map((segment, index) => (
+                                <div
+                                    key={index}
+                                    className={`absolute top-1 bottom-1 rounded cursor-pointer ${currentSegment === index ? 'bg-blue-600' : 'bg-blue-300 hover:bg-blue-400'}`}
+                                    style={{ left: toTimelinePercent(segment.start), width: toTimelinePercent(segment.end - segment.start) }}
+                                    onClick={() => handleSegmentSelect(index)}
+                                    title={`Segment ${index + 1}: ${formatTime(segment.start)} - ${formatTime(segment.end)}`}
+                                />
+                            ))}
+                            {shotBoundaries.map((boundary) => (
+                                <div
+                                    key={boundary}
+                                    className="absolute top-0 bottom-0 w-px bg-gray-500 pointer-events-none"
+                                    style={{ left: toTimelinePercent(boundary) }}
+                                />
+                            ))}
+                        </div>
+                    </div>
                 </div>
 
                 <div>
                     <div className="flex justify-between items-center mb-4">
-                        <h3 className="text-lg font-medium">Suggested Segments ({segments.length})</h3>
+                        <div>
+                            <h3 className="text-lg font-medium">Suggested Segments ({segments.length})</h3>
+                            <p className={`text-sm ${durationBudget && totalDuration > durationBudget ? 'text-red-600' : 'text-gray-600'}`}>
+                                Total {formatTime(totalDuration)}{durationBudget ? ` of ${formatTime(durationBudget)}` : ''}
+                            </p>
+                        </div>
                         <button
                             onClick={addSegment}
                             className="py-1 px-3 bg-blue-500 text-white rounded-md hover:bg-blue-600 text-sm"
@@ -356,6 +439,81 @@ export default function SegmentReviewScreen({
                         </button>
                     </div>
 
+                    {(cacheStatus?.transcript || cacheStatus?.highlights) && (
+                        <p className="mb-3 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg p-2">
+                            {cacheStatus.highlights
+                                ? 'These suggestions were reused from an earlier run on this video.'
+                                : 'The transcript was reused from an earlier run on this video.'}
+                            {' '}Tick &quot;Ignore cached results&quot; before generating to run every step again.
+                        </p>
+                    )}
+
+                    {onReanalyze && (
+                        <details className="mb-3 text-sm border border-gray-200 rounded-lg p-2">
+                            <summary className="cursor-pointer font-medium">Re-analyze with another mode</summary>
+                            <div className="mt-3 space-y-3">
+                                <select
+                                    value={reanalyzeMode}
+                                    onChange={(e) => setReanalyzeMode(e.target.value as HighlightConfig['mode'])}
+                                    disabled={isReanalyzing}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                                >
+                                    {HIGHLIGHT_MODE_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                {reanalyzeMode === 'custom' && (
+                                    <textarea
+                                        value={reanalyzePrompt}
+                                        onChange={(e) => setReanalyzePrompt(e.target.value)}
+                                        disabled={isReanalyzing}
+                                        placeholder="Describe what kind of highlights you want to extract..."
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                                        rows={3}
+                                    />
+                                )}
+                                <p className="text-gray-600">
+                                    The existing transcript is reused. Merging keeps the segments you edited or added and replaces the other suggestions they overlap.
+                                </p>
+                                <div className="flex gap-2">
+                                    <button
+                                        onClick={() => handleReanalyze('merge')}
+                                        disabled={isReanalyzing}
+                                        className="py-1 px-3 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+                                    >
+                                        {isReanalyzing ? 'Analyzing...' : 'Merge Suggestions'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleReanalyze('replace')}
+                                        disabled={isReanalyzing}
+                                        className="py-1 px-3 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50"
+                                    >
+                                        Replace All
+                                    </button>
+                                </div>
+                                {reanalyzeError && <p className="text-red-600">{reanalyzeError}</p>}
+                            </div>
+                        </details>
+                    )}
+
+                    {droppedSegments.length > 0 && (
+                        <details className="mb-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                            <summary className="cursor-pointer">
+                                {droppedSegments.length} suggestion{droppedSegments.length === 1 ? ' was' : 's were'} discarded
+                            </summary>
+                            <ul className="mt-2 space-y-1">
+                                {droppedSegments.map((dropped, index) => (
+                                    <li key={index}>
+                                        {dropped.start !== undefined && dropped.end !== undefined
+                                            ? `${formatTime(dropped.start)} - ${formatTime(dropped.end)}: `
+                                            : ''}
+                                        {dropped.reason}
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
+
                     <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
                         {segments.map((segment, index) => (
                             <div
@@ -365,7 +523,8 @@ export default function SegmentReviewScreen({
                             >
                                 <div className="flex justify-between items-center">
                                     <div>
-                                        <span className="font-medium">Segment {index + 1}</span>
+                                        <span className="font-medium">Segment {index + 1}{segment.title ? `: ${segment.title}` : ''}</span>
+                                        {segment.edited && <span className="ml-2 text-xs text-gray-500">(edited)</span>}
                                         <p className="text-sm text-gray-600 mt-1">
                                             {formatTime(segment.start)} - {formatTime(segment.end)} ({Math.floor(segment.end - segment.start)} seconds)
                                         </p>
@@ -382,6 +541,9 @@ export default function SegmentReviewScreen({
                                         </svg>
                                     </button>
                                 </div>
+                                {segment.hook && (
+                                    <p className="text-sm italic text-gray-700 mt-1">&ldquo;{segment.hook}&rdquo;</p>
+                                )}
                                 <p className="text-sm text-gray-600 mt-1">{segment.description}</p>
                             </div>
                         ))}
@@ -473,6 +635,18 @@ export default function SegmentReviewScreen({
                                     {Math.floor(segments[currentSegment].end - segments[currentSegment].start)} seconds
                                 </div>
                             </div>
+
+                            {shotBoundaries.length > 0 && (
+                                <button
+                                    onClick={() => {
+                                        const [snapped] = snapSegmentsToShots([segments[currentSegment]], shots!);
+                                        updateSegment(currentSegment, { start: snapped.start, end: snapped.end });
+                                    }}
+                                    className="px-3 py-1 bg-gray-200 rounded-md hover:bg-gray-300 text-sm"
+                                >
+                                    Snap to Shot Changes
+                                </button>
+                            )}
                         </div>
 
                         <div>
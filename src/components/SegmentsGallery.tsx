@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
-import { VideoSegment } from '@/types';
+import { TranscriptionResult, VideoSegment } from '@/types';
 import SegmentPreview, { resetSegmentCounts } from './SegmentPreview';
+import { releaseFaceDetector } from '@/lib/utils/reframe-utils';
+import { CaptionOptions } from '@/lib/utils/caption-utils';
 
 interface SegmentsGalleryProps {
     segments: VideoSegment[];
     originalVideo: File;
+    captions?: CaptionOptions;
+    transcriptionResult?: TranscriptionResult;
 }
 
 // Declare global window properties if not already declared
@@ -18,7 +22,7 @@ declare global {
 // This helps prevent resource contention with the main video processing
 const segmentsProcessingDelay = 1000; // Reduced to 1 second for better user experience
 
-export default function SegmentsGallery({ segments, originalVideo }: SegmentsGalleryProps) {
+export default function SegmentsGallery({ segments, originalVideo, captions, transcriptionResult }: SegmentsGalleryProps) {
     const [processSegments, setProcessSegments] = useState(false);
 
     // Update the total segments count
@@ -34,6 +38,8 @@ export default function SegmentsGallery({ segments, originalVideo }: SegmentsGal
         return () => {
             // Reset on unmount
             resetSegmentCounts();
+            // Free the speaker tracking model used by the segment previews
+            releaseFaceDetector();
         };
     }, [segments.length]);
 
@@ -55,7 +61,7 @@ export default function SegmentsGallery({ segments, originalVideo }: SegmentsGal
                 <div className="text-sm text-gray-500">
                     {!processSegments ?
                         "Preparing segments..." :
-                        "Processing segments in sequence"}
+                        "Processing segments in parallel"}
                 </div>
             </div>
 
@@ -66,6 +72,8 @@ export default function SegmentsGallery({ segments, originalVideo }: SegmentsGal
                         segment={segment}
                         index={index}
                         originalVideo={originalVideo}
+                        captions={captions}
+                        transcriptionResult={transcriptionResult}
                         ready={processSegments}
                     />
                 ))}
@@ -1,10 +1,106 @@
+import { useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { useOpenAI } from '@/hooks/useOpenAI';
-import { ProcessedVideo, HighlightConfig, VideoMetadata, ProgressState, TranscriptionResult } from '@/types';
-import { upload } from '@vercel/blob/client';
+import { useOpenAI, ApiError } from '@/hooks/useOpenAI';
+import { ProcessedVideo, HighlightConfig, VideoMetadata, ProgressState, TranscriptionResult, TranscriptionProviderConfig, ExcitementCurve, Shot, Keyframe, HighlightAnalysisResult, DroppedSegment, VideoSegment } from '@/types';
+import { snapSegmentsToWordBoundaries, stitchTranscriptionResults } from '@/lib/utils/transcript-utils';
+import { AudioChunk } from '@/lib/utils/audio-utils';
+import type { RenderProgressCallback } from '@/lib/utils/video-utils';
+import { analyzeAudioEnergy, rescoreWithExcitement } from '@/lib/utils/audio-analysis';
+import { DEFAULT_SCENE_THRESHOLD, DEFAULT_SHOT_SNAP_TOLERANCE, snapSegmentsToShots } from '@/lib/utils/scene-utils';
+import { applyClipLengthLimits, getTotalDuration, selectSegmentsWithinBudget } from '@/lib/utils/segment-selection';
+import { mapWithConcurrency, withRetry } from '@/lib/utils/async-utils';
+import {
+    CachedTranscript,
+    getCachedHighlights,
+    getCachedTranscript,
+    getHighlightsCacheKey,
+    getTranscriptCacheKey,
+    hashMediaFile,
+    saveCachedHighlights,
+    saveCachedTranscript,
+} from '@/lib/storage/analysis-cache';
+import { describeAudioSource, getAudioStorageBackend, getMaxAudioChunkBytes, storeAudio } from '@/lib/storage/audio-storage';
+
+// Audio chunks transcribed at the same time for long videos
+const TRANSCRIPTION_CONCURRENCY = 3;
+const TRANSCRIPTION_ATTEMPTS = 3;
+
+// Client errors other than timeouts and rate limits fail the same way on every attempt
+function isRetryableTranscriptionError(error: unknown): boolean {
+    if (error instanceof ApiError && error.status) {
+        return error.status >= 500 || error.status === 408 || error.status === 429;
+    }
+    return true;
+}
+
+// Surface why suggestions were discarded in the processing log
+function logDroppedSegments(droppedSegments: DroppedSegment[]) {
+    droppedSegments.forEach(dropped => {
+        const range = dropped.start !== undefined && dropped.end !== undefined
+            ? `${dropped.start.toFixed(2)}s - ${dropped.end.toFixed(2)}s`
+            : 'unknown range';
+        console.log(`Dropped suggestion (${range}): ${dropped.reason}`);
+    });
+}
+
+/**
+ * Turn the model's suggestions into final segments: snap edges to words and shot
+ * changes, blend in audio excitement, then apply clip limits and the budget
+ */
+function refineSegments(
+    suggestions: VideoSegment[],
+    config: HighlightConfig,
+    transcriptionResult: TranscriptionResult,
+    duration: number,
+    shots?: Shot[],
+    excitementCurve?: ExcitementCurve | null
+): VideoSegment[] {
+    // Snap segment edges to gaps between words so cuts never land mid-word
+    let snappedSegments = snapSegmentsToWordBoundaries(
+        suggestions,
+        transcriptionResult.words,
+        duration,
+        config.boundaryPadding
+    );
+    if (transcriptionResult.words?.length) {
+        console.log(`Snapped segment boundaries to ${transcriptionResult.words.length} word timestamps`);
+    }
+
+    // Pull edges that land a few frames off a camera change onto the cut, unless the cut is mid-word
+    if (shots && config.snapToShots) {
+        snappedSegments = snapSegmentsToShots(snappedSegments, shots, DEFAULT_SHOT_SNAP_TOLERANCE, transcriptionResult.words);
+        console.log(`Snapped segment edges to ${shots.length - 1} shot changes`);
+    }
+
+    // Blend audio excitement into confidence so the budget selection favours loud moments
+    const scoredSegments = excitementCurve
+        ? rescoreWithExcitement(snappedSegments, excitementCurve, config.mode)
+        : snappedSegments;
+
+    // Enforce clip length limits and the reel duration budget on the final boundaries
+    const segments = selectSegmentsWithinBudget(
+        applyClipLengthLimits(scoredSegments, config, transcriptionResult.words),
+        config.maxDuration
+    );
+    if (config.maxDuration) {
+        console.log(`Selected ${getTotalDuration(segments).toFixed(1)}s of highlights within the ${config.maxDuration}s budget`);
+    }
+    console.log(`Found ${segments.length} suggested segments`);
+    segments.forEach((segment, i) => {
+        console.log(`Segment ${i + 1}: ${segment.start.toFixed(2)}s - ${segment.end.toFixed(2)}s (${(segment.end - segment.start).toFixed(2)}s) - ${segment.title || segment.description || 'No description'}`);
+    });
+
+    return segments;
+}
+
+export interface ProcessVideoOptions {
+    // Ignore cached transcripts and analyses and run every step again
+    forceRefresh?: boolean;
+}
 
 interface VideoProcessorProps {
     apiKey: string;
+    transcriptionProvider?: TranscriptionProviderConfig;
     videoFile: File | null;
     videoMetadata: VideoMetadata | null;
     highlightConfig: HighlightConfig;
@@ -15,6 +111,7 @@ interface VideoProcessorProps {
 
 export function useVideoProcessor({
     apiKey,
+    transcriptionProvider,
     videoFile,
     videoMetadata,
     highlightConfig,
@@ -22,17 +119,94 @@ export function useVideoProcessor({
     onProcessingComplete,
     onError
 }: VideoProcessorProps) {
-    const { transcribeAudio, findHighlights, isLoading, error: openAIError } = useOpenAI({ apiKey });
+    const { transcribeAudio, findHighlights, isLoading, error: openAIError } = useOpenAI({ apiKey, transcriptionProvider });
+    // Inputs of the last analysis, reused when the review screen asks for a re-run
+    const lastRunRef = useRef<{ transcriptCacheKey: string | null; excitementCurve: ExcitementCurve | null }>({
+        transcriptCacheKey: null,
+        excitementCurve: null,
+    });
+    // Controller of the running operation, aborted by cancelProcessing
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Start a cancellable operation, cancelling any that is still running
+    const beginOperation = (): AbortSignal => {
+        abortControllerRef.current?.abort(new DOMException('Superseded by a new operation', 'AbortError'));
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        return controller.signal;
+    };
 
-    const processVideo = async () => {
-        if (!videoFile || !videoMetadata) return;
+    const endOperation = (signal: AbortSignal) => {
+        if (abortControllerRef.current?.signal === signal) {
+            abortControllerRef.current = null;
+        }
+    };
 
-        // Create a custom function to update progress with logging
-        const updateProgress = (status: ProgressState['status'], progress: number, message?: string) => {
-            console.log(`Progress Update: ${status} - ${progress}% - ${message || ''}`);
-            onProgress({ status, progress, message });
-        };
+    /**
+     * Cancel the running analysis or render. In-flight requests are aborted, which
+     * also aborts their upstream API calls, and busy FFmpeg workers are terminated.
+     */
+    const cancelProcessing = () => {
+        if (!abortControllerRef.current) return;
+        console.log('Cancelling processing...');
+        abortControllerRef.current.abort(new DOMException('Processing cancelled', 'AbortError'));
+        abortControllerRef.current = null;
+    };
+
+    // Create a custom function to update progress with logging
+    const updateProgress = (status: ProgressState['status'], progress: number, message?: string) => {
+        console.log(`Progress Update: ${status} - ${progress}% - ${message || ''}`);
+        onProgress({ status, progress, message });
+    };
 
+    // Ask the model for highlights, sampling keyframes first when visual analysis is on
+    const requestHighlights = async (
+        config: HighlightConfig,
+        transcriptionResult: TranscriptionResult,
+        excitementCurve: ExcitementCurve | null,
+        signal: AbortSignal
+    ): Promise<HighlightAnalysisResult> => {
+        if (!videoFile || !videoMetadata) throw new Error('No video loaded');
+
+        // Keyframes let a vision-capable model judge what is on screen
+        let keyframes: Keyframe[] | undefined;
+        if (config.visualAnalysis) {
+            updateProgress('analyzing', 58, 'Sampling keyframes...');
+            try {
+                const { sampleKeyframes } = await import('@/lib/utils/keyframe-utils');
+                keyframes = await sampleKeyframes(videoFile, videoMetadata.duration, signal);
+            } catch (error) {
+                if (signal.aborted) throw error;
+                console.warn('Keyframe sampling failed, continuing with the transcript only:', error);
+            }
+        }
+
+        // Find highlights based on transcript
+        console.log('Step 3: Analyzing transcript for highlights');
+        updateProgress('analyzing', 60, 'Finding suggested segments...');
+
+        const highlightsStart = performance.now();
+        const analysis = await findHighlights(
+            transcriptionResult,
+            config,
+            videoMetadata.duration,
+            excitementCurve?.peaks,
+            keyframes,
+            signal
+        );
+        const highlightsTime = ((performance.now() - highlightsStart) / 1000).toFixed(2);
+
+        console.log(`Highlight analysis completed in ${highlightsTime}s`);
+        if (analysis.repaired) {
+            console.log('Highlights response was malformed and has been repaired');
+        }
+        return analysis;
+    };
+
+    const processVideo = async ({ forceRefresh = false }: ProcessVideoOptions = {}) => {
+        if (!videoFile || !videoMetadata) return;
+
+        const signal = beginOperation();
         try {
             // Create a new processed video object
             const videoId = uuidv4();
@@ -51,112 +225,262 @@ export function useVideoProcessor({
             console.log(`Highlight mode: ${highlightConfig.mode}`);
             console.log(`Target platform: ${highlightConfig.targetPlatform}`);
 
-            // Extract audio and transcribe
-            updateProgress('transcribing', 0, 'Extracting audio...');
-            console.log('Step 1: Extracting audio from video');
-
-            // We need to extract audio first to reduce file size
-            let audioBlob;
+            // Reuse earlier results for the same media so re-runs skip extraction and paid transcription
+            updateProgress('transcribing', 0, 'Checking for cached results...');
+            let transcriptCacheKey: string | null = null;
+            let cachedTranscript: CachedTranscript | null = null;
             try {
-                console.log('Extracting audio from video using FFmpeg');
-
-                // Import FFmpeg dynamically and load our managed instance
-                const { loadFFmpeg } = await import('@/lib/utils/video-utils');
-                const { fetchFile } = await import('@ffmpeg/util');
-
-                // Use the managed FFmpeg instance from our utility function
-                const ffmpeg = await loadFFmpeg();
-                console.log('Managed FFmpeg instance loaded for audio extraction');
-
-                // Write the video file to FFmpeg filesystem
-                await ffmpeg.writeFile('input.mp4', await fetchFile(videoFile));
-                console.log('Input file written to FFmpeg filesystem');
-
-                // Extract audio to MP3 format
-                await ffmpeg.exec([
-                    '-i', 'input.mp4',
-                    '-vn',                // No video
-                    '-acodec', 'libmp3lame', // MP3 codec
-                    '-q:a', '4',          // Quality setting (lower = better quality)
-                    '-ar', '44100',       // Audio sampling rate
-                    'output.mp3'
-                ]);
-
-                // Read the audio file
-                const audioData = await ffmpeg.readFile('output.mp3');
-                if (audioData && audioData instanceof Uint8Array) {
-                    audioBlob = new Blob([audioData], { type: 'audio/mpeg' });
-                    console.log(`Extracted audio file: ${(audioBlob.size / (1024 * 1024)).toFixed(2)}MB`);
+                const mediaHash = await hashMediaFile(videoFile);
+                console.log(`Media content hash: ${mediaHash}`);
+                transcriptCacheKey = getTranscriptCacheKey(mediaHash, transcriptionProvider);
+                if (forceRefresh) {
+                    console.log('Force refresh requested, ignoring cached results');
                 } else {
-                    throw new Error('Failed to extract audio: output data is empty or invalid');
+                    cachedTranscript = await getCachedTranscript(transcriptCacheKey);
                 }
-
-                // Clean up files but don't terminate the managed instance here.
-                // The video-utils manager will handle termination.
-                await ffmpeg.deleteFile('input.mp4');
-                await ffmpeg.deleteFile('output.mp3');
-                console.log('FFmpeg filesystem cleaned for audio extraction');
             } catch (error) {
-                console.error('Error extracting audio:', error);
-                throw new Error(`Failed to extract audio: ${error instanceof Error ? error.message : String(error)}`);
+                console.warn('Analysis cache unavailable, processing without it:', error);
             }
 
-            // For now, we'll just use the video file directly
-            console.log('Step 2: Starting transcription');
-            console.log(`Sending audio file to transcription API: ${(audioBlob.size / (1024 * 1024)).toFixed(2)}MB`);
-            updateProgress('transcribing', 20, 'Transcribing audio...');
+            const useAudioAnalysis = highlightConfig.audioAnalysis !== false;
+            let excitementCurve: ExcitementCurve | null = useAudioAnalysis ? cachedTranscript?.excitementCurve ?? null : null;
+            // A cached transcript from a run without audio analysis still needs the audio extracted
+            const needsAudio = !cachedTranscript || (useAudioAnalysis && !excitementCurve);
 
-            const transcriptionStart = performance.now();
-            let transcriptionResult;
-            try {
-                // Step 2.1: Upload the audio blob to Vercel Blob storage using the client-side helper
-                console.log("Uploading audio blob to storage via client...");
-                updateProgress('transcribing', 25, 'Uploading audio for transcription...');
-
-                const blob = await upload(`${videoId}-audio.mp3`, audioBlob, {
-                    access: 'public',
-                    handleUploadUrl: '/api/upload',
-                });
+            // Extract audio and transcribe
+            const transcribeLocally = transcriptionProvider?.provider === 'browser';
+            let audioBlob: Blob | undefined;
+            let audioChunks: AudioChunk[] = [];
+            let localTranscription: TranscriptionResult | null = null;
+            if (needsAudio) {
+                updateProgress('transcribing', 0, 'Extracting audio...');
+                console.log('Step 1: Extracting audio from video');
+
+                // Errors once the audio exists come from the steps that use it, and keep their own messages
+                let audioExtracted = false;
+
+                // We need to extract audio first to reduce file size
+                try {
+                    console.log('Extracting audio from video using FFmpeg');
+
+                    const { mountInputFile, runFFmpegJob } = await import('@/lib/utils/ffmpeg-pool');
+                    const { splitAudioOnSilence } = await import('@/lib/utils/audio-utils');
+
+                    // Everything that reads the extracted audio runs in the same job, on one pooled worker
+                    const extraction = await runFFmpegJob(async ffmpeg => {
+                        // Mount the video so FFmpeg reads it without copying it into memory
+                        const inputFileName = await mountInputFile(ffmpeg, videoFile);
+                        console.log(`Input file mounted at ${inputFileName}`);
+
+                        // Extract audio to MP3 format
+                        await ffmpeg.exec([
+                            '-i', inputFileName,
+                            '-vn',                // No video
+                            '-acodec', 'libmp3lame', // MP3 codec
+                            '-q:a', '4',          // Quality setting (lower = better quality)
+                            '-ar', '44100',       // Audio sampling rate
+                            'output.mp3'
+                        ]);
+
+                        // Read the audio file
+                        const audioData = await ffmpeg.readFile('output.mp3');
+                        if (!(audioData && audioData instanceof Uint8Array)) {
+                            throw new Error('Failed to extract audio: output data is empty or invalid');
+                        }
+                        const extractedAudio = new Blob([audioData], { type: 'audio/mpeg' });
+                        console.log(`Extracted audio file: ${(extractedAudio.size / (1024 * 1024)).toFixed(2)}MB`);
+                        audioExtracted = true;
+
+                        // Loudness and crowd reactions complement the transcript; failures only lose the hints
+                        let curve = excitementCurve;
+                        if (useAudioAnalysis && !curve) {
+                            updateProgress('transcribing', 5, 'Analyzing audio energy...');
+                            try {
+                                curve = await analyzeAudioEnergy(ffmpeg, 'output.mp3');
+                                console.log(`Audio analysis found ${curve.peaks.length} energy peaks`);
+                            } catch (error) {
+                                if (signal.aborted) throw error;
+                                console.warn('Audio energy analysis failed, continuing without audio hints:', error);
+                            }
+                        }
 
-                console.log(`Audio uploaded successfully: ${blob.url}`);
-                updateProgress('transcribing', 30, 'Audio uploaded. Starting transcription...');
+                        // In-browser Whisper reads the audio straight from the FFmpeg filesystem
+                        let transcription: TranscriptionResult | null = null;
+                        if (!cachedTranscript && transcribeLocally) {
+                            const { transcribeInBrowser } = await import('@/lib/utils/browser-transcription');
+                            const transcriptionStart = performance.now();
+                            try {
+                                transcription = await transcribeInBrowser(
+                                    ffmpeg,
+                                    'output.mp3',
+                                    videoMetadata.duration,
+                                    transcriptionProvider?.model,
+                                    ({ stage, progress, message }) => updateProgress(
+                                        'transcribing',
+                                        Math.round(stage === 'loading' ? 10 + progress * 10 : 20 + progress * 30),
+                                        message
+                                    ),
+                                    signal
+                                );
+                            } catch (transcriptionError) {
+                                if (signal.aborted) throw transcriptionError;
+                                console.error('In-browser transcription failed:', transcriptionError);
+                                throw new Error(`Transcription failed: ${transcriptionError instanceof Error ? transcriptionError.message : String(transcriptionError)}`);
+                            }
+                            console.log(`In-browser transcription completed in ${((performance.now() - transcriptionStart) / 1000).toFixed(2)}s`);
+                        }
 
-                transcriptionResult = await transcribeAudio(blob.url);
-                const transcriptionTime = ((performance.now() - transcriptionStart) / 1000).toFixed(2);
+                        // Long recordings exceed the transcription upload limit, so split them on silence
+                        let chunks: AudioChunk[] = [];
+                        if (!cachedTranscript && !transcribeLocally) {
+                            updateProgress('transcribing', 10, 'Preparing audio for transcription...');
+                            chunks = await splitAudioOnSilence(ffmpeg, 'output.mp3', extractedAudio, videoMetadata.duration, getMaxAudioChunkBytes());
+                        }
 
-                console.log(`Transcription completed in ${transcriptionTime}s`);
-                console.log(`Transcript length: ${transcriptionResult.text.length} characters`);
-                console.log(`First 100 characters: "${transcriptionResult.text.substring(0, 100)}..."`);
+                        return { audioBlob: extractedAudio, audioChunks: chunks, localTranscription: transcription, excitementCurve: curve };
+                    }, { signal, label: 'Audio extraction' });
+
+                    audioBlob = extraction.audioBlob;
+                    audioChunks = extraction.audioChunks;
+                    localTranscription = extraction.localTranscription;
+                    excitementCurve = extraction.excitementCurve;
+                } catch (error) {
+                    if (signal.aborted || audioExtracted) throw error;
+                    console.error('Error extracting audio:', error);
+                    throw new Error(`Failed to extract audio: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
 
+            let transcriptionResult: TranscriptionResult;
+            if (cachedTranscript) {
+                transcriptionResult = cachedTranscript.transcriptionResult;
+                console.log(`Step 2: Using cached transcript from ${new Date(cachedTranscript.createdAt).toLocaleString()} (${transcriptionResult.text.length} characters)`);
+                updateProgress('transcribing', 50, 'Using cached transcript');
+            } else if (localTranscription) {
+                transcriptionResult = localTranscription;
+                console.log(`Step 2: Transcribed in the browser (${transcriptionResult.text.length} characters)`);
                 updateProgress('transcribing', 50, 'Transcription complete');
-            } catch (transcriptionError) {
-                console.error("Transcription failed:", transcriptionError);
-                throw new Error(`Transcription failed: ${transcriptionError instanceof Error ? transcriptionError.message : String(transcriptionError)}`);
+            } else {
+                console.log('Step 2: Starting transcription');
+                console.log(`Sending audio to transcription API: ${((audioBlob?.size ?? 0) / (1024 * 1024)).toFixed(2)}MB in ${audioChunks.length} chunk(s) via ${getAudioStorageBackend()} storage`);
+                updateProgress('transcribing', 20, 'Transcribing audio...');
+
+                const transcriptionStart = performance.now();
+                try {
+                    updateProgress('transcribing', 25, 'Uploading audio for transcription...');
+
+                    let completedChunks = 0;
+                    // A failed chunk cancels the uploads still running instead of waiting for them
+                    const chunkResults = await mapWithConcurrency(audioChunks, TRANSCRIPTION_CONCURRENCY, (chunk, index, chunkSignal) =>
+                        withRetry(async () => {
+                            // Send the chunk directly or through the configured storage backend
+                            const fileName = audioChunks.length > 1
+                                ? `${videoId}-audio-${index}.mp3`
+                                : `${videoId}-audio.mp3`;
+                            chunkSignal.throwIfAborted();
+                            const audio = await storeAudio(fileName, chunk.blob);
+                            console.log(`Audio chunk ${index + 1}/${audioChunks.length} ready: ${describeAudioSource(audio)}`);
+
+                            const result = await transcribeAudio(audio, chunkSignal);
+
+                            completedChunks++;
+                            updateProgress(
+                                'transcribing',
+                                Math.round(25 + (completedChunks / audioChunks.length) * 25),
+                                audioChunks.length > 1
+                                    ? `Transcribed ${completedChunks}/${audioChunks.length} audio chunks...`
+                                    : 'Transcribing audio...'
+                            );
+                            return { result, offset: chunk.start };
+                        }, {
+                            attempts: TRANSCRIPTION_ATTEMPTS,
+                            shouldRetry: error => !chunkSignal.aborted && isRetryableTranscriptionError(error),
+                            onRetry: (error, attempt) => console.warn(`Transcription of chunk ${index + 1} failed (attempt ${attempt}), retrying:`, error),
+                        }),
+                        signal
+                    );
+
+                    // Shift each chunk's timestamps to its position in the video
+                    transcriptionResult = stitchTranscriptionResults(chunkResults);
+                    const transcriptionTime = ((performance.now() - transcriptionStart) / 1000).toFixed(2);
+
+                    console.log(`Transcription completed in ${transcriptionTime}s`);
+                    console.log(`Transcript length: ${transcriptionResult.text.length} characters`);
+                    console.log(`First 100 characters: "${transcriptionResult.text.substring(0, 100)}..."`);
+
+                    updateProgress('transcribing', 50, 'Transcription complete');
+                } catch (transcriptionError) {
+                    if (signal.aborted) throw transcriptionError;
+                    console.error("Transcription failed:", transcriptionError);
+                    throw new Error(`Transcription failed: ${transcriptionError instanceof Error ? transcriptionError.message : String(transcriptionError)}`);
+                }
+            }
+
+            // Store the transcript, or add an audio curve computed for a cached one
+            if (transcriptCacheKey && (!cachedTranscript || (excitementCurve && !cachedTranscript.excitementCurve))) {
+                await saveCachedTranscript(transcriptCacheKey, {
+                    transcriptionResult,
+                    excitementCurve: excitementCurve ?? undefined,
+                }).catch(error => console.warn('Could not cache transcript:', error));
             }
 
-            // Find highlights based on transcript
-            console.log('Step 3: Analyzing transcript for highlights');
-            updateProgress('analyzing', 60, 'Finding suggested segments...');
+            const highlightsCacheKey = transcriptCacheKey ? getHighlightsCacheKey(transcriptCacheKey, highlightConfig) : null;
+            const cachedHighlights = highlightsCacheKey && !forceRefresh
+                ? await getCachedHighlights(highlightsCacheKey).catch(error => {
+                    console.warn('Could not read cached highlights:', error);
+                    return null;
+                })
+                : null;
+
+            let shots: Shot[] | undefined;
+            let analysis: HighlightAnalysisResult;
+            if (cachedHighlights) {
+                ({ analysis, shots } = cachedHighlights);
+                console.log(`Step 3: Using cached highlight analysis from ${new Date(cachedHighlights.createdAt).toLocaleString()}`);
+                updateProgress('analyzing', 60, 'Using cached segment suggestions');
+            } else {
+                // Shot changes are optional since decoding the whole video is slow
+                if (highlightConfig.sceneDetection) {
+                    updateProgress('analyzing', 55, 'Detecting shot changes...');
+                    try {
+                        const { detectSceneChanges } = await import('@/lib/utils/video-utils');
+                        shots = await detectSceneChanges(videoFile, videoMetadata.duration, DEFAULT_SCENE_THRESHOLD, signal);
+                    } catch (error) {
+                        if (signal.aborted) throw error;
+                        console.warn('Scene detection failed, continuing without shot boundaries:', error);
+                    }
+                }
+
+                analysis = await requestHighlights(highlightConfig, transcriptionResult, excitementCurve, signal);
 
-            const highlightsStart = performance.now();
-            const segments = await findHighlights(
-                transcriptionResult.text,
+                if (highlightsCacheKey) {
+                    await saveCachedHighlights(highlightsCacheKey, { analysis, shots })
+                        .catch(error => console.warn('Could not cache highlight analysis:', error));
+                }
+            }
+            logDroppedSegments(analysis.dropped);
+            lastRunRef.current = { transcriptCacheKey, excitementCurve };
+
+            const segments = refineSegments(
+                analysis.segments,
                 highlightConfig,
-                videoMetadata.duration
+                transcriptionResult,
+                videoMetadata.duration,
+                shots,
+                excitementCurve
             );
-            const highlightsTime = ((performance.now() - highlightsStart) / 1000).toFixed(2);
-
-            console.log(`Highlight analysis completed in ${highlightsTime}s`);
-            console.log(`Found ${segments.length} suggested segments`);
-            segments.forEach((segment, i) => {
-                console.log(`Segment ${i + 1}: ${segment.start.toFixed(2)}s - ${segment.end.toFixed(2)}s (${(segment.end - segment.start).toFixed(2)}s) - ${segment.description || 'No description'}`);
-            });
 
             // Create the processed video with suggested segments
             const processedVideo: ProcessedVideo = {
                 ...initialProcessedVideo,
                 segments,
                 transcript: transcriptionResult.text,
+                droppedSegments: analysis.dropped,
+                shots,
+                cacheStatus: {
+                    transcript: !!cachedTranscript,
+                    highlights: !!cachedHighlights,
+                },
             };
 
             // Mark process as completed after finding segments
@@ -167,9 +491,75 @@ export function useVideoProcessor({
             onProcessingComplete(processedVideo, transcriptionResult.text, transcriptionResult);
 
         } catch (err) {
+            if (signal.aborted) {
+                console.log('--- Video processing cancelled ---');
+                updateProgress('idle', 0, 'Processing cancelled');
+                return;
+            }
             console.error('Error during video processing:', err);
             updateProgress('error', 0, err instanceof Error ? err.message : 'Failed to process video');
             onError(err instanceof Error ? err.message : 'Failed to process video');
+        } finally {
+            endOperation(signal);
+        }
+    };
+
+    /**
+     * Run the highlight analysis again on an existing transcript, e.g. with another
+     * mode or prompt, without re-extracting or re-transcribing the audio
+     * @param config Highlight settings for the new run
+     * @param transcriptionResult Transcript of the current video
+     * @param shots Shot list from the original run, used for snapping
+     * @returns The refined suggestions and the ones dropped by validation
+     */
+    const reanalyzeSegments = async (
+        config: HighlightConfig,
+        transcriptionResult: TranscriptionResult,
+        shots?: Shot[]
+    ): Promise<HighlightAnalysisResult> => {
+        if (!videoMetadata) throw new Error('No video loaded');
+
+        const signal = beginOperation();
+        try {
+            console.log('--- Re-running highlight analysis ---');
+            console.log(`Highlight mode: ${config.mode}`);
+
+            // The audio curve is only known when this session processed the video
+            const { transcriptCacheKey, excitementCurve } = lastRunRef.current;
+            const curve = config.audioAnalysis !== false ? excitementCurve : null;
+
+            const highlightsCacheKey = transcriptCacheKey ? getHighlightsCacheKey(transcriptCacheKey, config) : null;
+            let analysis = highlightsCacheKey
+                ? await getCachedHighlights(highlightsCacheKey).then(cached => cached?.analysis ?? null).catch(() => null)
+                : null;
+
+            if (analysis) {
+                console.log('Using cached highlight analysis for these settings');
+            } else {
+                analysis = await requestHighlights(config, transcriptionResult, curve, signal);
+                if (highlightsCacheKey) {
+                    await saveCachedHighlights(highlightsCacheKey, { analysis, shots })
+                        .catch(error => console.warn('Could not cache highlight analysis:', error));
+                }
+            }
+            logDroppedSegments(analysis.dropped);
+
+            const segments = refineSegments(analysis.segments, config, transcriptionResult, videoMetadata.duration, shots, curve);
+
+            updateProgress('completed', 100, 'New suggestions ready for review');
+            console.log('--- Re-analysis complete ---');
+            return { ...analysis, segments };
+        } catch (err) {
+            if (signal.aborted) {
+                console.log('--- Re-analysis cancelled ---');
+                updateProgress('idle', 0, 'Re-analysis cancelled');
+                throw new Error('Re-analysis was cancelled');
+            }
+            console.error('Error during re-analysis:', err);
+            updateProgress('error', 0, err instanceof Error ? err.message : 'Failed to re-analyze video');
+            throw err;
+        } finally {
+            endOperation(signal);
         }
     };
 
@@ -179,6 +569,7 @@ export function useVideoProcessor({
             return;
         }
 
+        const signal = beginOperation();
         try {
             // Update progress
             onProgress({
@@ -250,15 +641,12 @@ export function useVideoProcessor({
                         progress: 50 + (progress * 40), // 50-90% range
                         message: detail || `Combining (${step})`
                     });
-                }
+                },
+                signal
             );
 
             console.log(`Combined video created: ${combinedBlob.size} bytes`);
 
-            // Create URL for the combined video
-            const combinedUrl = URL.createObjectURL(combinedBlob);
-            console.log(`Created URL for combined video: ${combinedUrl}`);
-
             // Store for recovery
             if (typeof window !== 'undefined') {
                 window._lastCreatedVideoBlob = combinedBlob;
@@ -271,10 +659,15 @@ export function useVideoProcessor({
                 message: 'Combined video ready!'
             });
 
-            // Return the URL for the combined video
-            return { combined: combinedUrl };
+            // Return the blob so the caller can show it and save it with the project
+            return { combined: combinedBlob };
 
         } catch (error) {
+            if (signal.aborted) {
+                console.log('--- Segment combination cancelled ---');
+                onProgress({ status: 'idle', progress: 0, message: 'Video creation cancelled' });
+                return;
+            }
             console.error('Error combining segments:', error);
             onProgress({
                 status: 'error',
@@ -282,6 +675,8 @@ export function useVideoProcessor({
                 message: `Failed to combine segments: ${error instanceof Error ? error.message : String(error)}`
             });
             throw error;
+        } finally {
+            endOperation(signal);
         }
     };
 
@@ -291,6 +686,7 @@ export function useVideoProcessor({
             return null;
         }
 
+        const signal = beginOperation();
         try {
             onProgress({
                 status: 'processing',
@@ -353,10 +749,11 @@ export function useVideoProcessor({
                         (step, progress, detail) => {
                             onProgress({
                                 status: 'processing',
-                                progress: 40 + (progress * 0.5),
+                                progress: 40 + (progress * 50),
                                 message: detail || `Combining (${step})`
                             });
-                        }
+                        },
+                        signal
                     );
 
                     console.log(`Combined video created: ${combinedBlob.size} bytes`);
@@ -381,6 +778,7 @@ export function useVideoProcessor({
 
             // Import the video utils dynamically
             const { createPlatformSpecificVideos } = await import('@/lib/utils/video-utils');
+            const { getCaptionOptions } = await import('@/lib/utils/caption-utils');
 
             // Apply the target platform to segments if not already set
             const segmentsWithPlatform = processedVideo.segments.map(segment => ({
@@ -389,11 +787,13 @@ export function useVideoProcessor({
             }));
 
             // Create the progress callback
-            const progressCallback = (step: string, progress: number, detail?: string) => {
+            const progressCallback: RenderProgressCallback = (step, progress, detail, etaSeconds, renderEngine) => {
                 onProgress({
                     status: 'processing',
                     progress: 30 + (progress * 0.7),
-                    message: detail || `Creating videos (${step})`
+                    message: detail || `Creating videos (${step})`,
+                    etaSeconds,
+                    renderEngine
                 });
             };
 
@@ -402,7 +802,9 @@ export function useVideoProcessor({
                 videoFile,
                 segmentsWithPlatform,
                 videoMetadata,
-                progressCallback
+                progressCallback,
+                getCaptionOptions(processedVideo),
+                signal
             );
 
             onProgress({
@@ -413,6 +815,11 @@ export function useVideoProcessor({
 
             return outputs;
         } catch (error) {
+            if (signal.aborted) {
+                console.log('--- Video creation cancelled ---');
+                onProgress({ status: 'idle', progress: 0, message: 'Video creation cancelled' });
+                return null;
+            }
             console.error('Error creating format-specific videos:', error);
             onProgress({
                 status: 'error',
@@ -420,13 +827,17 @@ export function useVideoProcessor({
                 message: `Failed to create videos: ${error instanceof Error ? error.message : String(error)}`
             });
             throw error;
+        } finally {
+            endOperation(signal);
         }
     };
 
     return {
         processVideo,
+        reanalyzeSegments,
         combineSegments,
         createFormatSpecificVideos,
+        cancelProcessing,
         isLoading,
         openAIError
     };
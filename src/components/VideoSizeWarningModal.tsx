@@ -1,4 +1,4 @@
-import { formatFileSize, estimateProcessingTime } from '@/lib/utils/device-utils';
+import { formatFileSize } from '@/lib/utils/device-utils';
 
 interface VideoSizeWarningModalProps {
     isOpen: boolean;
@@ -19,7 +19,6 @@ export default function VideoSizeWarningModal({
 
     const formattedFileSize = formatFileSize(fileSize);
     const formattedMaxSize = formatFileSize(maxRecommendedSize);
-    const estimatedTime = estimateProcessingTime(fileSize);
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-800 bg-opacity-75">
@@ -51,9 +50,9 @@ export default function VideoSizeWarningModal({
                         Processing this video may:
                     </p>
                     <ul className="list-disc pl-5 mb-3 space-y-1">
-                        <li>Take approximately <span className="font-semibold">{estimatedTime} minutes</span> to complete</li>
+                        <li>Take a long time to render; the remaining time is shown once encoding starts</li>
                         <li>Cause your browser to run slowly or become unresponsive</li>
-                        <li>Use significant system resources</li>
+                        <li>Use significant memory for the rendered clips</li>
                     </ul>
                     <p>
                         Consider selecting a smaller video or trimming this one before uploading.
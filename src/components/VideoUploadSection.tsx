@@ -2,8 +2,9 @@ import { useState } from 'react';
 import { VideoMetadata, ProgressState } from '@/types';
 import VideoUploader from '@/components/VideoUploader';
 import { getVideoMetadata } from '@/lib/utils/video-utils';
+import { HARD_MAX_VIDEO_SIZE } from '@/lib/utils/device-utils';
 
-const MAX_FILE_SIZE_BYTES = 1.5 * 1024 * 1024 * 1024; // 1.5 GiB
+const MAX_FILE_SIZE_BYTES = HARD_MAX_VIDEO_SIZE;
 const MAX_FILE_SIZE_GB = MAX_FILE_SIZE_BYTES / (1024 * 1024 * 1024);
 
 // Basic Modal Component for this section
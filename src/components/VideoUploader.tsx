@@ -1,9 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
 import { ProgressState } from '@/types';
-import { getMaxVideoSize, formatFileSize } from '@/lib/utils/device-utils';
+import { getMaxVideoSize, formatFileSize, HARD_MAX_VIDEO_SIZE } from '@/lib/utils/device-utils';
 import VideoSizeWarningModal from './VideoSizeWarningModal';
 
-const HARD_MAX_FILE_SIZE_BYTES = 1.5 * 1024 * 1024 * 1024; // 1.5 GiB
+const HARD_MAX_FILE_SIZE_BYTES = HARD_MAX_VIDEO_SIZE;
 const HARD_MAX_FILE_SIZE_GB_STRING = (HARD_MAX_FILE_SIZE_BYTES / (1024 * 1024 * 1024)).toFixed(1);
 
 interface VideoUploaderProps {
@@ -16,13 +16,13 @@ export default function VideoUploader({ onVideoSelected, isProcessing, progress
     const [dragActive, setDragActive] = useState(false);
     const [showWarningModal, setShowWarningModal] = useState(false);
     const [selectedFileForWarning, setSelectedFileForWarning] = useState<File | null>(null);
-    const [maxVideoSize, setMaxVideoSize] = useState<number>(100 * 1024 * 1024); // Default 100MB
+    const [maxVideoSize, setMaxVideoSize] = useState<number>(500 * 1024 * 1024); // Default 500MB
     const [hardLimitError, setHardLimitError] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (typeof window !== 'undefined') {
-            setMaxVideoSize(getMaxVideoSize());
+            getMaxVideoSize().then(setMaxVideoSize);
         }
     }, []);
 
@@ -1,5 +1,8 @@
 import { useState } from 'react';
-import { TranscriptionResult, VideoSegment, HighlightConfig } from '@/types';
+import { TranscriptionResult, HighlightAnalysisResult, HighlightConfig, TranscriptionProviderConfig, AudioPeak, Keyframe } from '@/types';
+import { getApiKey } from '@/lib/utils/api-utils';
+import { DEFAULT_LLM_CONFIG, LLM_PROVIDERS } from '@/lib/providers/llm-registry';
+import { AudioSource, describeAudioSource } from '@/lib/storage/audio-storage';
 
 // Define a custom error class to include status
 export class ApiError extends Error {
@@ -15,23 +18,29 @@ export class ApiError extends Error {
 
 interface UseOpenAIProps {
     apiKey?: string;
+    transcriptionProvider?: TranscriptionProviderConfig;
 }
 
-export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
+export function useOpenAI({ apiKey, transcriptionProvider = { provider: 'openai' } }: UseOpenAIProps = {}) {
+    // Self-hosted transcription servers use their own (optional) key
+    const transcriptionApiKey = transcriptionProvider.provider === 'openai'
+        ? apiKey
+        : transcriptionProvider.apiKey;
+
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
-    async function transcribeAudio(audioUrl: string): Promise<TranscriptionResult> {
+    async function transcribeAudio(audio: AudioSource, signal?: AbortSignal): Promise<TranscriptionResult> {
         setIsLoading(true);
         setError(null);
 
         try {
-            if (!apiKey) {
+            if (transcriptionProvider.provider === 'openai' && !apiKey) {
                 throw new Error('API key is required');
             }
 
-            console.log(`Preparing to transcribe audio from URL: ${audioUrl}`);
-            return await transcribeFromUrl(audioUrl);
+            console.log(`Preparing to transcribe audio from ${describeAudioSource(audio)} (provider: ${transcriptionProvider.provider})`);
+            return await requestTranscription(audio, signal);
 
         } catch (err) {
             let errorMessage: string;
@@ -44,24 +53,48 @@ export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
                 errorMessage = 'Unknown error during transcription';
             }
 
-            console.error('Transcription error details:', err);
-            setError(errorMessage);
+            // Cancelling is not an error the user needs to see
+            if (!signal?.aborted) {
+                console.error('Transcription error details:', err);
+                setError(errorMessage);
+            }
             throw err;
         } finally {
             setIsLoading(false);
         }
     }
 
-    // Helper function to transcribe from a URL
-    async function transcribeFromUrl(audioUrl: string): Promise<TranscriptionResult> {
-        console.log(`Sending transcription request to API for ${audioUrl}`);
+    // Helper function to send audio, or a reference to stored audio, to the transcribe route
+    async function requestTranscription(audio: AudioSource, signal?: AbortSignal): Promise<TranscriptionResult> {
+        console.log(`Sending transcription request to API for ${describeAudioSource(audio)}`);
+        const provider = {
+            provider: transcriptionProvider.provider,
+            baseUrl: transcriptionProvider.baseUrl,
+            model: transcriptionProvider.model,
+        };
+
+        let body: BodyInit;
+        const headers: Record<string, string> = { 'X-API-KEY': transcriptionApiKey || '' };
+        if (audio.type === 'file') {
+            // The browser sets the multipart boundary in the Content-Type header
+            const formData = new FormData();
+            formData.append('provider', JSON.stringify(provider));
+            formData.append('file', audio.blob, audio.fileName);
+            body = formData;
+        } else {
+            body = JSON.stringify({
+                ...(audio.type === 'url' ? { fileUrl: audio.url } : { storageKey: audio.key }),
+                provider,
+            });
+            headers['Content-Type'] = 'application/json';
+        }
+
+        // Aborting the fetch also aborts the route's upstream request
         const response = await fetch('/api/openai/transcribe', {
             method: 'POST',
-            body: JSON.stringify({ fileUrl: audioUrl }),
-            headers: {
-                'Content-Type': 'application/json',
-                'X-API-KEY': apiKey || '',
-            },
+            body,
+            headers,
+            signal,
         });
 
         if (!response.ok) {
@@ -87,7 +120,8 @@ export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
         console.log('Transcription API response received');
         const result = await response.json();
 
-        if (!result.text) {
+        // Silent footage legitimately transcribes to an empty string
+        if (typeof result.text !== 'string') {
             console.error('Invalid transcription response:', result);
             throw new Error('Transcription succeeded but the response was invalid.');
         }
@@ -96,16 +130,22 @@ export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
     }
 
     async function findHighlights(
-        transcript: string,
+        transcription: TranscriptionResult,
         config: HighlightConfig,
-        videoDuration: number
-    ): Promise<VideoSegment[]> {
+        videoDuration: number,
+        audioPeaks?: AudioPeak[],
+        keyframes?: Keyframe[],
+        signal?: AbortSignal
+    ): Promise<HighlightAnalysisResult> {
         setIsLoading(true);
         setError(null);
 
         try {
-            if (!apiKey) {
-                throw new Error('API key is required');
+            // Each highlights provider keeps its own key; OpenAI uses the main key
+            const llm = config.llm || DEFAULT_LLM_CONFIG;
+            const llmApiKey = llm.provider === 'openai' ? apiKey : getApiKey(llm.provider);
+            if (LLM_PROVIDERS[llm.provider].requiresApiKey && !llmApiKey) {
+                throw new Error(`${LLM_PROVIDERS[llm.provider].label} API key is required`);
             }
 
             const promptMode = config.mode === 'custom'
@@ -116,13 +156,23 @@ export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
-                    'X-API-KEY': apiKey || '',
+                    'X-API-KEY': llmApiKey || '',
                 },
                 body: JSON.stringify({
-                    transcript,
+                    // Timed segments give the model real timestamps; the text is a fallback
+                    // for transcription servers that return no segments
+                    transcriptSegments: transcription.segments,
+                    transcript: transcription.segments?.length ? undefined : transcription.text,
                     prompt: promptMode,
-                    videoDuration
+                    videoDuration,
+                    maxDuration: config.maxDuration,
+                    minClipDuration: config.minClipDuration,
+                    maxClipDuration: config.maxClipDuration,
+                    audioPeaks,
+                    keyframes,
+                    llm
                 }),
+                signal,
             });
 
             if (!response.ok) {
@@ -130,11 +180,12 @@ export function useOpenAI({ apiKey }: UseOpenAIProps = {}) {
                 throw new Error(`Failed to generate highlights: ${response.statusText}. ${errorText}`);
             }
 
-            const highlightSegments = await response.json();
-            return highlightSegments;
+            const result: HighlightAnalysisResult = await response.json();
+            return result;
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Unknown error finding highlights';
-            setError(errorMessage);
+            if (!signal?.aborted) {
+                setError(err instanceof Error ? err.message : 'Unknown error finding highlights');
+            }
             throw err;
         } finally {
             setIsLoading(false);
@@ -9,4 +9,60 @@ const FFMPEG_BASE_URL = '/ffmpeg';
 // Paths to the self-hosted FFmpeg core files.
 // Using these is crucial for production builds to comply with Cross-Origin-Embedder-Policy (COEP).
 export const FFMPEG_CORE_URL = `${FFMPEG_BASE_URL}/ffmpeg-core.js`;
-export const FFMPEG_WASM_URL = `${FFMPEG_BASE_URL}/ffmpeg-core.wasm`; 
\ No newline at end of file
+export const FFMPEG_WASM_URL = `${FFMPEG_BASE_URL}/ffmpeg-core.wasm`;
+
+// Font loaded into the FFmpeg filesystem for burned-in captions. It covers Latin, Greek and Cyrillic.
+// ffmpeg.wasm has no system fonts, so libass can only render fonts we provide.
+export const CAPTION_FONT_URL = '/fonts/NotoSans-Regular.ttf';
+export const CAPTION_FONT_NAME = 'Noto Sans';
+
+export interface CaptionScriptFont {
+    // Matches text written in the script
+    script: RegExp;
+    name: string;
+    url: string;
+}
+
+// Script fonts are up to 10MB each, so they are fetched from a CDN only when a caption needs them
+const CAPTION_FONT_CDN_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+// Fonts for scripts Noto Sans lacks. libass can't fall back between fonts without
+// system fonts, so each caption line uses the first entry matching its text.
+// Kana comes before Han so Japanese lines get Japanese glyph shapes.
+export const CAPTION_SCRIPT_FONTS: CaptionScriptFont[] = [
+    {
+        script: /[\p{Script=Hiragana}\p{Script=Katakana}]/u,
+        name: 'Noto Sans JP',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-jp@0.4.3/400Regular/NotoSansJP_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Hangul}/u,
+        name: 'Noto Sans KR',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-kr@0.4.3/400Regular/NotoSansKR_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Han}/u,
+        name: 'Noto Sans SC',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-sc@0.4.3/400Regular/NotoSansSC_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Arabic}/u,
+        name: 'Noto Sans Arabic',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-arabic@0.4.3/400Regular/NotoSansArabic_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Hebrew}/u,
+        name: 'Noto Sans Hebrew',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-hebrew@0.4.1/400Regular/NotoSansHebrew_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Devanagari}/u,
+        name: 'Noto Sans Devanagari',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-devanagari@0.4.1/400Regular/NotoSansDevanagari_400Regular.ttf`,
+    },
+    {
+        script: /\p{Script=Thai}/u,
+        name: 'Noto Sans Thai',
+        url: `${CAPTION_FONT_CDN_URL}/noto-sans-thai@0.4.2/400Regular/NotoSansThai_400Regular.ttf`,
+    },
+];
@@ -0,0 +1,52 @@
+/**
+ * Base URLs of self-hosted providers come from the client, and the server makes
+ * requests to them. Outside development they must match an entry of
+ * PROVIDER_BASE_URL_ALLOWLIST, otherwise anyone could use the server to reach
+ * hosts on its private network.
+ */
+
+// Comma-separated base URLs, e.g. "http://ollama:11434/v1,https://whisper.internal"
+function getAllowedBaseUrls(): URL[] {
+    return (process.env.PROVIDER_BASE_URL_ALLOWLIST || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .flatMap(entry => {
+            try {
+                return [new URL(entry)];
+            } catch {
+                console.warn(`Ignoring invalid PROVIDER_BASE_URL_ALLOWLIST entry: ${entry}`);
+                return [];
+            }
+        });
+}
+
+function isAllowed(url: URL, allowed: URL): boolean {
+    const allowedPath = allowed.pathname.replace(/\/+$/, '');
+    return url.origin === allowed.origin &&
+        (url.pathname === allowedPath || url.pathname.startsWith(`${allowedPath}/`));
+}
+
+/**
+ * Check a base URL sent by the client
+ * @returns An error message, or null when the server may call the URL
+ */
+export function validateProviderBaseUrl(baseUrl: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(baseUrl);
+    } catch {
+        return 'Base URL is not a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Base URL must use http or https';
+    }
+
+    // A development server only reaches what the developer's own machine can
+    if (process.env.NODE_ENV === 'development') return null;
+
+    if (!getAllowedBaseUrls().some(allowed => isAllowed(url, allowed))) {
+        return `Base URL ${url.origin} is not allowed on this server. Add it to PROVIDER_BASE_URL_ALLOWLIST to use it.`;
+    }
+    return null;
+}
@@ -0,0 +1,243 @@
+import OpenAI from 'openai';
+import { LLMProviderConfig, LLMProviderId } from '@/types';
+import { LLM_PROVIDERS } from '@/lib/providers/llm-registry';
+import { validateProviderBaseUrl } from '@/lib/providers/base-url';
+
+/**
+ * Server-side chat completion backends used by the highlights route.
+ */
+
+// JSON schema the response must follow, enforced with structured outputs where supported
+export interface JsonSchemaFormat {
+    name: string;
+    description?: string;
+    schema: Record<string, unknown>;
+}
+
+// An image sent with the user message, with a caption such as its timestamp
+export interface ChatImage {
+    label: string;
+    // Base64 data URL, e.g. data:image/jpeg;base64,...
+    dataUrl: string;
+}
+
+export interface ChatCompletionRequest {
+    system: string;
+    user: string;
+    // Images for vision-capable models, sent after the user text
+    images?: ChatImage[];
+    temperature?: number;
+    // Ask the model for a JSON object where the provider supports it
+    jsonMode?: boolean;
+    jsonSchema?: JsonSchemaFormat;
+    // Cancels this request only; the provider's own signal still applies
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    readonly id: LLMProviderId;
+    readonly model: string;
+    complete(request: ChatCompletionRequest): Promise<string>;
+}
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+// Signal aborted by whichever of the provider and request signals aborts first
+function combineSignals(providerSignal?: AbortSignal, requestSignal?: AbortSignal): AbortSignal | undefined {
+    if (!providerSignal || !requestSignal) return providerSignal ?? requestSignal;
+    return AbortSignal.any([providerSignal, requestSignal]);
+}
+
+// Error from a provider HTTP API, carrying the upstream status code
+export class LLMProviderError extends Error {
+    status?: number;
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'LLMProviderError';
+        this.status = status;
+        Object.setPrototypeOf(this, LLMProviderError.prototype);
+    }
+}
+
+/**
+ * Chat completions through the OpenAI API, or a server implementing it
+ */
+function createOpenAIChatProvider(client: OpenAI, model: string, id: LLMProviderId, signal?: AbortSignal): LLMProvider {
+    return {
+        id,
+        model,
+        async complete({ system, user, images, temperature = 0.7, jsonMode, jsonSchema, signal: requestSignal }: ChatCompletionRequest): Promise<string> {
+            const userContent: OpenAI.ChatCompletionUserMessageParam['content'] = images?.length
+                ? [
+                    { type: 'text', text: user },
+                    ...images.flatMap(image => [
+                        { type: 'text' as const, text: image.label },
+                        // Low detail keeps each frame at a fixed, small token cost
+                        { type: 'image_url' as const, image_url: { url: image.dataUrl, detail: 'low' as const } },
+                    ]),
+                ]
+                : user;
+
+            const create = (responseFormat?: OpenAI.ChatCompletionCreateParams['response_format']) =>
+                client.chat.completions.create({
+                    model,
+                    messages: [
+                        { role: 'system', content: system },
+                        { role: 'user', content: userContent }
+                    ],
+                    ...(responseFormat ? { response_format: responseFormat } : {}),
+                    temperature,
+                }, { signal: combineSignals(signal, requestSignal) });
+
+            // Self-hosted servers disagree on JSON mode support, so only OpenAI gets it
+            const jsonFallback = (jsonMode || jsonSchema) && id === 'openai'
+                ? { type: 'json_object' as const }
+                : undefined;
+
+            let response;
+            if (jsonSchema) {
+                try {
+                    response = await create({
+                        type: 'json_schema',
+                        json_schema: { name: jsonSchema.name, description: jsonSchema.description, schema: jsonSchema.schema, strict: true },
+                    });
+                } catch (error) {
+                    // Older models and some servers don't support structured outputs
+                    if (!(error instanceof OpenAI.APIError) || (error.status !== 400 && error.status !== 422)) throw error;
+                    console.warn(`${model} rejected structured outputs, falling back:`, error.message);
+                    response = await create(jsonFallback);
+                }
+            } else {
+                response = await create(jsonFallback);
+            }
+
+            const content = response.choices[0]?.message.content;
+            if (!content) {
+                throw new Error(`Empty response from ${LLM_PROVIDERS[id].label}`);
+            }
+            return content;
+        },
+    };
+}
+
+// Anthropic takes images as base64 blocks rather than data URLs
+function toAnthropicContent(user: string, images: ChatImage[]) {
+    return [
+        { type: 'text', text: user },
+        ...images.flatMap(image => {
+            const match = image.dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+            if (!match) return [];
+            return [
+                { type: 'text', text: image.label },
+                { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } },
+            ];
+        }),
+    ];
+}
+
+/**
+ * Anthropic Messages API, called directly to avoid another SDK dependency
+ */
+function createAnthropicProvider(apiKey: string, model: string, signal?: AbortSignal): LLMProvider {
+    return {
+        id: 'anthropic',
+        model,
+        async complete({ system, user, images, temperature = 0.7, jsonSchema, signal: requestSignal }: ChatCompletionRequest): Promise<string> {
+            // Structured output through a forced tool call whose input is the schema
+            const toolOptions = jsonSchema
+                ? {
+                    tools: [{ name: jsonSchema.name, description: jsonSchema.description, input_schema: jsonSchema.schema }],
+                    tool_choice: { type: 'tool', name: jsonSchema.name },
+                }
+                : {};
+
+            const response = await fetch(ANTHROPIC_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': apiKey,
+                    'anthropic-version': ANTHROPIC_API_VERSION,
+                },
+                body: JSON.stringify({
+                    model,
+                    system,
+                    max_tokens: ANTHROPIC_MAX_TOKENS,
+                    temperature,
+                    messages: [{ role: 'user', content: images?.length ? toAnthropicContent(user, images) : user }],
+                    ...toolOptions,
+                }),
+                signal: combineSignals(signal, requestSignal),
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new LLMProviderError(`Anthropic API error ${response.status}: ${errorText}`, response.status);
+            }
+
+            const result = await response.json() as { content?: { type: string; text?: string; input?: unknown }[] };
+
+            const toolUse = result.content?.find(block => block.type === 'tool_use');
+            if (jsonSchema && toolUse?.input) {
+                return JSON.stringify(toolUse.input);
+            }
+
+            const content = result.content
+                ?.filter(block => block.type === 'text')
+                .map(block => block.text)
+                .join('');
+            if (!content) {
+                throw new Error('Empty response from Anthropic');
+            }
+            return content;
+        },
+    };
+}
+
+/**
+ * Check that a provider configuration and API key can be used.
+ * @returns An error message, or null when the configuration is valid
+ */
+export function validateLLMConfig(config: LLMProviderConfig, apiKey: string | null): string | null {
+    const info = LLM_PROVIDERS[config.provider];
+    if (!info) return `Unknown model provider: ${config.provider}`;
+
+    if (info.requiresApiKey && !apiKey) return `${info.label} API key is required`;
+    if (config.provider === 'openai' && apiKey && (!apiKey.startsWith('sk-') || apiKey.length < 20)) {
+        return 'Invalid API key format';
+    }
+
+    if (info.requiresBaseUrl) {
+        if (!config.baseUrl) return `A base URL is required for ${info.label} providers`;
+        return validateProviderBaseUrl(config.baseUrl);
+    }
+
+    return null;
+}
+
+/**
+ * Create the chat provider for a configuration. Call validateLLMConfig first.
+ * @param config Provider and model selection from the client
+ * @param apiKey API key for the provider (optional for self-hosted servers)
+ * @param signal Aborts every request the provider makes, e.g. when the client disconnects
+ */
+export function createLLMProvider(config: LLMProviderConfig, apiKey: string | null, signal?: AbortSignal): LLMProvider {
+    const model = config.model || LLM_PROVIDERS[config.provider].defaultModel;
+
+    switch (config.provider) {
+        case 'anthropic':
+            return createAnthropicProvider(apiKey || '', model, signal);
+        case 'openai-compatible':
+            return createOpenAIChatProvider(
+                // Local servers usually ignore the key, but the SDK requires one
+                new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: config.baseUrl }),
+                model,
+                'openai-compatible',
+                signal
+            );
+        case 'openai':
+        default:
+            return createOpenAIChatProvider(new OpenAI({ apiKey: apiKey || '' }), model, 'openai', signal);
+    }
+}
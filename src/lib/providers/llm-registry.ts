@@ -0,0 +1,55 @@
+import { LLMProviderConfig, LLMProviderId } from '@/types';
+
+/**
+ * Registry of the language model providers available for highlight selection.
+ * This module has no SDK imports so it can be used by both the UI and the API routes.
+ */
+
+export interface LLMProviderInfo {
+    id: LLMProviderId;
+    label: string;
+    description: string;
+    defaultModel: string;
+    // Suggested models; OpenAI-compatible servers accept any model name
+    models: string[];
+    requiresApiKey: boolean;
+    requiresBaseUrl: boolean;
+    defaultBaseUrl?: string;
+}
+
+export const LLM_PROVIDERS: Record<LLMProviderId, LLMProviderInfo> = {
+    'openai': {
+        id: 'openai',
+        label: 'OpenAI',
+        description: 'GPT models with your OpenAI API key',
+        // Structured outputs need gpt-4o or newer; older models fall back to JSON mode
+        defaultModel: 'gpt-4o',
+        models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4-turbo'],
+        requiresApiKey: true,
+        requiresBaseUrl: false,
+    },
+    'anthropic': {
+        id: 'anthropic',
+        label: 'Anthropic',
+        description: 'Claude models with an Anthropic API key',
+        defaultModel: 'claude-sonnet-4-5',
+        models: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-haiku-4-5'],
+        requiresApiKey: true,
+        requiresBaseUrl: false,
+    },
+    'openai-compatible': {
+        id: 'openai-compatible',
+        label: 'OpenAI-compatible',
+        description: 'Ollama, vLLM, LM Studio or any server with a /chat/completions endpoint',
+        defaultModel: 'llama3.1',
+        models: ['llama3.1', 'qwen2.5', 'mistral', 'gemma2'],
+        requiresApiKey: false,
+        requiresBaseUrl: true,
+        defaultBaseUrl: 'http://localhost:11434/v1',
+    },
+};
+
+export const DEFAULT_LLM_CONFIG: LLMProviderConfig = {
+    provider: 'openai',
+    model: LLM_PROVIDERS.openai.defaultModel,
+};
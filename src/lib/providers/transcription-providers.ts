@@ -0,0 +1,124 @@
+import OpenAI from 'openai';
+import type { Uploadable } from 'openai/uploads';
+import { TranscriptionProviderConfig, TranscriptionProviderId, TranscriptionResult } from '@/types';
+import { validateProviderBaseUrl } from '@/lib/providers/base-url';
+
+/**
+ * Server-side transcription backends.
+ *
+ * Every provider returns the same TranscriptionResult shape so the rest of the
+ * pipeline does not need to know where the transcript came from.
+ */
+
+export interface TranscriptionProvider {
+    readonly id: TranscriptionProviderId;
+    transcribe(file: Uploadable): Promise<TranscriptionResult>;
+}
+
+const DEFAULT_OPENAI_TRANSCRIPTION_MODEL = 'whisper-1';
+
+// Shape of verbose_json responses, which self-hosted servers fill in more or less completely
+interface VerboseTranscriptionResponse {
+    text?: string;
+    segments?: { id?: number; start: number; end: number; text: string }[];
+    words?: { word: string; start: number; end: number }[];
+}
+
+// Normalize a verbose_json response into a TranscriptionResult
+function toTranscriptionResult(response: VerboseTranscriptionResponse): TranscriptionResult {
+    const segments = response.segments?.map((segment, index) => ({
+        id: segment.id ?? index,
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+    }));
+
+    return {
+        text: response.text ?? segments?.map(segment => segment.text.trim()).join(' ') ?? '',
+        segments,
+        words: response.words?.map(word => ({ word: word.word, start: word.start, end: word.end })),
+    };
+}
+
+/**
+ * Transcription through the OpenAI audio API, or any server implementing it
+ * @param client OpenAI SDK client, optionally pointed at another base URL
+ * @param model Transcription model name
+ * @param id Provider id reported to callers
+ * @param signal Aborts the provider's requests
+ */
+function createOpenAIApiProvider(client: OpenAI, model: string, id: TranscriptionProviderId, signal?: AbortSignal): TranscriptionProvider {
+    return {
+        id,
+        async transcribe(file: Uploadable): Promise<TranscriptionResult> {
+            try {
+                const transcription = await client.audio.transcriptions.create({
+                    file,
+                    model,
+                    response_format: 'verbose_json',
+                    // Word timestamps let highlight cuts be snapped to word boundaries
+                    timestamp_granularities: ['segment', 'word'],
+                }, { signal });
+                return toTranscriptionResult(transcription);
+            } catch (error) {
+                // Some self-hosted servers reject word timestamps; retry with segments only
+                if (id === 'openai-compatible' && error instanceof OpenAI.APIError && (error.status === 400 || error.status === 422)) {
+                    console.warn('Server rejected word timestamps, retrying with segment timestamps only:', error.message);
+                    const transcription = await client.audio.transcriptions.create({
+                        file,
+                        model,
+                        response_format: 'verbose_json',
+                    }, { signal });
+                    return toTranscriptionResult(transcription);
+                }
+                throw error;
+            }
+        },
+    };
+}
+
+/**
+ * Check that a provider configuration and API key can be used.
+ * @returns An error message, or null when the configuration is valid
+ */
+export function validateTranscriptionConfig(config: TranscriptionProviderConfig, apiKey: string | null): string | null {
+    switch (config.provider) {
+        case 'openai':
+            if (!apiKey) return 'OpenAI API key is required';
+            if (!apiKey.startsWith('sk-') || apiKey.length < 20) return 'Invalid API key format';
+            return null;
+        case 'openai-compatible':
+            if (!config.baseUrl) return 'A base URL is required for an OpenAI-compatible transcription server';
+            if (!config.model) return 'A model name is required for an OpenAI-compatible transcription server';
+            return validateProviderBaseUrl(config.baseUrl);
+        default:
+            return `Unknown transcription provider: ${config.provider}`;
+    }
+}
+
+/**
+ * Create the transcription provider for a configuration. Call validateTranscriptionConfig first.
+ * @param config Provider selection from the client
+ * @param apiKey API key for the provider (optional for self-hosted servers)
+ * @param signal Aborts every request the provider makes, e.g. when the client disconnects
+ */
+export function createTranscriptionProvider(config: TranscriptionProviderConfig, apiKey: string | null, signal?: AbortSignal): TranscriptionProvider {
+    switch (config.provider) {
+        case 'openai-compatible':
+            return createOpenAIApiProvider(
+                // Local servers usually ignore the key, but the SDK requires one
+                new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: config.baseUrl }),
+                config.model!,
+                'openai-compatible',
+                signal
+            );
+        case 'openai':
+        default:
+            return createOpenAIApiProvider(
+                new OpenAI({ apiKey: apiKey || '' }),
+                config.model || DEFAULT_OPENAI_TRANSCRIPTION_MODEL,
+                'openai',
+                signal
+            );
+    }
+}
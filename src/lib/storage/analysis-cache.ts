@@ -0,0 +1,164 @@
+import {
+    ExcitementCurve,
+    HighlightAnalysisResult,
+    HighlightConfig,
+    Shot,
+    TranscriptionProviderConfig,
+    TranscriptionResult,
+} from '@/types';
+import { DEFAULT_LLM_CONFIG } from '@/lib/providers/llm-registry';
+import {
+    ANALYSIS_CACHE_LAST_USED_INDEX,
+    ANALYSIS_CACHE_STORE,
+    openDatabase,
+    promisify,
+    transactionDone,
+} from '@/lib/storage/indexed-db';
+
+/**
+ * Cache of transcripts and highlight analyses keyed by the content of the video,
+ * so re-running "Generate Segments" on the same file doesn't re-extract, re-upload
+ * and re-transcribe the audio.
+ *
+ * Transcripts are keyed by the media hash and transcription provider. Highlight
+ * analyses are keyed by the transcript key plus every setting that changes the
+ * model's answer; steps that run after the analysis (snapping, clip limits, the
+ * budget selection) are applied again on every run and are not part of the key.
+ *
+ * Entries not used for CACHE_TTL_MS expire, and only the MAX_CACHE_ENTRIES most
+ * recently used are kept, so the cache doesn't grow for as long as the browser
+ * keeps the site's data.
+ */
+
+// Files are hashed in slices so a large video is never read into memory at once
+const HASH_SLICE_BYTES = 64 * 1024 * 1024;
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 100;
+
+interface CacheEntry {
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CachedTranscript extends CacheEntry {
+    transcriptionResult: TranscriptionResult;
+    // Only present when audio analysis was enabled for the run that stored it
+    excitementCurve?: ExcitementCurve;
+}
+
+export interface CachedHighlights extends CacheEntry {
+    analysis: HighlightAnalysisResult;
+    shots?: Shot[];
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 content hash of a media file. Each slice is hashed separately and the
+ * slice digests are hashed together with the file size.
+ */
+export async function hashMediaFile(file: File): Promise<string> {
+    const digests: Uint8Array[] = [];
+    for (let offset = 0; offset < file.size; offset += HASH_SLICE_BYTES) {
+        const slice = await file.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer();
+        digests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', slice)));
+    }
+
+    const combined = new Uint8Array(digests.length * 32 + 8);
+    digests.forEach((digest, i) => combined.set(digest, i * 32));
+    new DataView(combined.buffer).setFloat64(digests.length * 32, file.size);
+
+    return toHex(await crypto.subtle.digest('SHA-256', combined));
+}
+
+export function getTranscriptCacheKey(mediaHash: string, provider: TranscriptionProviderConfig = { provider: 'openai' }): string {
+    return `transcript:${mediaHash}:${provider.provider}:${provider.baseUrl || ''}:${provider.model || ''}`;
+}
+
+export function getHighlightsCacheKey(transcriptKey: string, config: HighlightConfig): string {
+    const settings = {
+        mode: config.mode,
+        customPrompt: config.mode === 'custom' ? config.customPrompt : undefined,
+        maxDuration: config.maxDuration,
+        minClipDuration: config.minClipDuration,
+        maxClipDuration: config.maxClipDuration,
+        audioAnalysis: config.audioAnalysis !== false,
+        sceneDetection: !!config.sceneDetection,
+        visualAnalysis: !!config.visualAnalysis,
+        llm: config.llm || DEFAULT_LLM_CONFIG,
+    };
+    return `highlights:${transcriptKey}:${JSON.stringify(settings)}`;
+}
+
+// Returns the entry and marks it as used, or drops it if it has expired
+async function getEntry<T extends CacheEntry>(key: string): Promise<T | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ANALYSIS_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(ANALYSIS_CACHE_STORE);
+    const entry = await promisify(store.get(key) as IDBRequest<T | undefined>);
+    if (!entry) return null;
+
+    const now = Date.now();
+    const expired = now - entry.lastUsedAt > CACHE_TTL_MS;
+    if (expired) {
+        store.delete(key);
+    } else {
+        store.put({ ...entry, lastUsedAt: now }, key);
+    }
+    await transactionDone(transaction);
+    return expired ? null : entry;
+}
+
+/**
+ * Delete expired entries and the least recently used ones over the limit. Walks
+ * the lastUsedAt index oldest first with a key cursor, so no entry is loaded.
+ */
+async function evictEntries(store: IDBObjectStore): Promise<void> {
+    const cutoff = Date.now() - CACHE_TTL_MS;
+    let excess = await promisify(store.count()) - MAX_CACHE_ENTRIES;
+
+    await new Promise<void>((resolve, reject) => {
+        const request = store.index(ANALYSIS_CACHE_LAST_USED_INDEX).openKeyCursor();
+        request.onsuccess = () => {
+            const cursor = request.result;
+            // Everything after the first entry that is recent and within the limit is too
+            if (!cursor || (excess <= 0 && (cursor.key as number) >= cutoff)) {
+                resolve();
+                return;
+            }
+            store.delete(cursor.primaryKey);
+            excess--;
+            cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function putEntry<T extends CacheEntry>(key: string, entry: T): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ANALYSIS_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(ANALYSIS_CACHE_STORE);
+    store.put(entry, key);
+    await evictEntries(store);
+    await transactionDone(transaction);
+}
+
+export function getCachedTranscript(key: string): Promise<CachedTranscript | null> {
+    return getEntry<CachedTranscript>(key);
+}
+
+export function saveCachedTranscript(key: string, entry: Omit<CachedTranscript, keyof CacheEntry>): Promise<void> {
+    const now = Date.now();
+    return putEntry(key, { ...entry, createdAt: now, lastUsedAt: now });
+}
+
+export function getCachedHighlights(key: string): Promise<CachedHighlights | null> {
+    return getEntry<CachedHighlights>(key);
+}
+
+export function saveCachedHighlights(key: string, entry: Omit<CachedHighlights, keyof CacheEntry>): Promise<void> {
+    const now = Date.now();
+    return putEntry(key, { ...entry, createdAt: now, lastUsedAt: now });
+}
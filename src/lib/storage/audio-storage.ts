@@ -0,0 +1,91 @@
+import { upload } from '@vercel/blob/client';
+import { MAX_TRANSCRIPTION_CHUNK_BYTES } from '@/lib/utils/audio-utils';
+
+/**
+ * Where audio goes on its way to the transcribe route.
+ *
+ * - direct: the audio is sent as multipart/form-data with the transcription request
+ * - local: the audio is uploaded to the server's filesystem and referenced by key
+ * - vercel-blob: the audio is uploaded to Vercel Blob and fetched back by URL
+ *
+ * Vercel caps function bodies at 4.5MB, so vercel-blob is the default on Vercel
+ * deployments and direct everywhere else; direct or local uploads on Vercel are
+ * split into chunks below that limit. Set NEXT_PUBLIC_AUDIO_STORAGE to choose.
+ */
+
+export type AudioStorageBackend = 'direct' | 'local' | 'vercel-blob';
+
+// Vercel's 4.5MB body limit, less room for the multipart envelope and other fields
+const VERCEL_BODY_LIMIT_BYTES = 4 * 1024 * 1024;
+
+// Audio as the transcribe route receives it
+export type AudioSource =
+    | { type: 'file'; blob: Blob; fileName: string }
+    | { type: 'local'; key: string }
+    | { type: 'url'; url: string };
+
+export function getAudioStorageBackend(): AudioStorageBackend {
+    const backend = process.env.NEXT_PUBLIC_AUDIO_STORAGE;
+    if (backend === 'direct' || backend === 'local' || backend === 'vercel-blob') return backend;
+    // Vercel exposes NEXT_PUBLIC_VERCEL_ENV to the browser on its deployments
+    return process.env.NEXT_PUBLIC_VERCEL_ENV ? 'vercel-blob' : 'direct';
+}
+
+/**
+ * Largest audio chunk the backend can deliver to the transcribe route
+ */
+export function getMaxAudioChunkBytes(backend: AudioStorageBackend = getAudioStorageBackend()): number {
+    // Blob uploads go straight to storage; the route only receives a URL
+    if (backend === 'vercel-blob') return MAX_TRANSCRIPTION_CHUNK_BYTES;
+    // On Vercel the request body has to stay under its limit
+    return process.env.NEXT_PUBLIC_VERCEL_ENV
+        ? Math.min(MAX_TRANSCRIPTION_CHUNK_BYTES, VERCEL_BODY_LIMIT_BYTES)
+        : MAX_TRANSCRIPTION_CHUNK_BYTES;
+}
+
+/**
+ * Make audio available to the transcribe route using the configured backend
+ * @param fileName Name of the audio file, including its extension
+ * @param blob Audio data
+ */
+export async function storeAudio(
+    fileName: string,
+    blob: Blob,
+    backend: AudioStorageBackend = getAudioStorageBackend()
+): Promise<AudioSource> {
+    switch (backend) {
+        case 'local': {
+            const formData = new FormData();
+            formData.append('file', blob, fileName);
+            const response = await fetch('/api/upload/local', { method: 'POST', body: formData });
+            if (!response.ok) {
+                const body = await response.json().catch(() => ({}));
+                throw new Error(`Audio upload failed: ${response.status} ${body.error || response.statusText}`);
+            }
+            const { key } = await response.json();
+            return { type: 'local', key };
+        }
+        case 'vercel-blob': {
+            const stored = await upload(fileName, blob, {
+                access: 'public',
+                handleUploadUrl: '/api/upload',
+            });
+            return { type: 'url', url: stored.url };
+        }
+        case 'direct':
+        default:
+            return { type: 'file', blob, fileName };
+    }
+}
+
+// Short description of an audio source for the processing log
+export function describeAudioSource(source: AudioSource): string {
+    switch (source.type) {
+        case 'file':
+            return `${source.fileName} (sent with the request)`;
+        case 'local':
+            return `local storage key ${source.key}`;
+        case 'url':
+            return source.url;
+    }
+}
@@ -0,0 +1,65 @@
+/**
+ * Shared IndexedDB database for saved projects and the analysis cache.
+ *
+ * Every store is created in onupgradeneeded, so adding a store only needs a
+ * new name here and a version bump.
+ */
+
+const DB_NAME = 'hai-lights-maker';
+const DB_VERSION = 3;
+
+export const PROJECTS_STORE = 'projects';
+export const FILES_STORE = 'files';
+export const ANALYSIS_CACHE_STORE = 'analysis-cache';
+// Index of cache entries by the time they were last used, for eviction
+export const ANALYSIS_CACHE_LAST_USED_INDEX = 'lastUsedAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = event => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(FILES_STORE)) {
+                    db.createObjectStore(FILES_STORE);
+                }
+                // Entries from before version 3 have no lastUsedAt to index, so the cache starts over
+                if (event.oldVersion < 3 && db.objectStoreNames.contains(ANALYSIS_CACHE_STORE)) {
+                    db.deleteObjectStore(ANALYSIS_CACHE_STORE);
+                }
+                if (!db.objectStoreNames.contains(ANALYSIS_CACHE_STORE)) {
+                    db.createObjectStore(ANALYSIS_CACHE_STORE)
+                        .createIndex(ANALYSIS_CACHE_LAST_USED_INDEX, 'lastUsedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+// Wrap an IndexedDB request in a promise
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// Resolve when a transaction has committed
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
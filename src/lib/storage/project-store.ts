@@ -0,0 +1,188 @@
+import {
+    DroppedSegment,
+    HighlightConfig,
+    Shot,
+    TranscriptionResult,
+    VideoMetadata,
+    VideoSegment,
+} from '@/types';
+import { FILES_STORE, PROJECTS_STORE, openDatabase, promisify, transactionDone } from '@/lib/storage/indexed-db';
+
+/**
+ * Project persistence in IndexedDB, so a refresh doesn't lose the session.
+ *
+ * Project state lives in the "projects" store and the large blobs (source video
+ * and rendered outputs) in the "files" store, so the project list can be read
+ * without loading any video data.
+ */
+
+export type ProjectStep = 'configure' | 'review' | 'results';
+
+export interface ProjectRecord {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    step: ProjectStep;
+    sourceFileName: string;
+    sourceFileSize: number;
+    // False when the browser refused to store the source video (usually quota)
+    hasSourceFile: boolean;
+    videoMetadata: VideoMetadata | null;
+    highlightConfig: HighlightConfig;
+    transcript?: string;
+    transcriptionResult?: TranscriptionResult;
+    suggestedSegments: VideoSegment[];
+    droppedSegments?: DroppedSegment[];
+    shots?: Shot[];
+    // Segments approved on the review screen
+    approvedSegments?: VideoSegment[];
+    // Keys of the rendered outputs stored for this project
+    outputKeys: string[];
+}
+
+export interface LoadedProject {
+    record: ProjectRecord;
+    sourceFile: File | null;
+    outputs: Record<string, Blob>;
+}
+
+const sourceKey = (id: string) => `${id}:source`;
+const outputKey = (id: string, key: string) => `${id}:output:${key}`;
+
+/**
+ * List saved projects, most recently updated first
+ */
+export async function listProjects(): Promise<ProjectRecord[]> {
+    const db = await openDatabase();
+    const records = await promisify(
+        db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll() as IDBRequest<ProjectRecord[]>
+    );
+    return records.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Save the state of a project
+ */
+export async function saveProject(record: ProjectRecord): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).put({ ...record, updatedAt: Date.now() });
+    await transactionDone(transaction);
+}
+
+/**
+ * Update part of a saved project's state
+ */
+export async function updateProject(id: string, updates: Partial<Omit<ProjectRecord, 'id' | 'outputKeys'>>): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+    const store = transaction.objectStore(PROJECTS_STORE);
+    const record = await promisify(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+    if (record) {
+        store.put({ ...record, ...updates, updatedAt: Date.now() });
+    }
+    await transactionDone(transaction);
+}
+
+/**
+ * Store the source video of a project
+ * @returns False if the browser refused to store it, usually because of the storage quota
+ */
+export async function saveProjectSource(id: string, file: File): Promise<boolean> {
+    try {
+        const db = await openDatabase();
+        const transaction = db.transaction(FILES_STORE, 'readwrite');
+        transaction.objectStore(FILES_STORE).put(file, sourceKey(id));
+        await transactionDone(transaction);
+        return true;
+    } catch (error) {
+        console.warn('Could not store the source video for this project:', error);
+        return false;
+    }
+}
+
+/**
+ * Store rendered outputs of a project, replacing earlier ones
+ * @param outputs Rendered videos keyed by output name
+ */
+export async function saveProjectOutputs(id: string, outputs: Record<string, Blob>): Promise<void> {
+    const db = await openDatabase();
+    const record = await promisify(
+        db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id) as IDBRequest<ProjectRecord | undefined>
+    );
+    if (!record) return;
+
+    const transaction = db.transaction([PROJECTS_STORE, FILES_STORE], 'readwrite');
+    const files = transaction.objectStore(FILES_STORE);
+    for (const key of record.outputKeys) {
+        files.delete(outputKey(id, key));
+    }
+    for (const [key, blob] of Object.entries(outputs)) {
+        files.put(blob, outputKey(id, key));
+    }
+    transaction.objectStore(PROJECTS_STORE).put({ ...record, outputKeys: Object.keys(outputs), updatedAt: Date.now() });
+    await transactionDone(transaction);
+}
+
+/**
+ * Load a project with its source video and rendered outputs
+ */
+export async function loadProject(id: string): Promise<LoadedProject | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, FILES_STORE]);
+    const record = await promisify(
+        transaction.objectStore(PROJECTS_STORE).get(id) as IDBRequest<ProjectRecord | undefined>
+    );
+    if (!record) return null;
+
+    const files = transaction.objectStore(FILES_STORE);
+    const source = await promisify(files.get(sourceKey(id)) as IDBRequest<Blob | undefined>);
+    const outputs: Record<string, Blob> = {};
+    for (const key of record.outputKeys) {
+        const blob = await promisify(files.get(outputKey(id, key)) as IDBRequest<Blob | undefined>);
+        if (blob) outputs[key] = blob;
+    }
+
+    // Older browsers store Files as plain Blobs, so restore the name
+    const sourceFile = source
+        ? source instanceof File ? source : new File([source], record.sourceFileName, { type: source.type })
+        : null;
+
+    return { record, sourceFile, outputs };
+}
+
+/**
+ * Copy a project and its source video under a new id. Rendered outputs are not copied.
+ * @returns The new project
+ */
+export async function duplicateProject(id: string): Promise<ProjectRecord | null> {
+    const loaded = await loadProject(id);
+    if (!loaded) return null;
+
+    const now = Date.now();
+    const copy: ProjectRecord = {
+        ...loaded.record,
+        id: crypto.randomUUID(),
+        name: `${loaded.record.name} (copy)`,
+        createdAt: now,
+        updatedAt: now,
+        outputKeys: [],
+    };
+
+    copy.hasSourceFile = loaded.sourceFile ? await saveProjectSource(copy.id, loaded.sourceFile) : false;
+    await saveProject(copy);
+    return copy;
+}
+
+/**
+ * Delete a project and all of its stored files
+ */
+export async function deleteProject(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, FILES_STORE], 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).delete(id);
+    // Every file key of the project starts with its id
+    transaction.objectStore(FILES_STORE).delete(IDBKeyRange.bound(`${id}:`, `${id}:\uffff`));
+    await transactionDone(transaction);
+}
@@ -0,0 +1,168 @@
+import { createReadStream, type ReadStream } from 'fs';
+import { copyFile, mkdir, readdir, rename, rm, stat } from 'fs/promises';
+import type { IncomingMessage } from 'http';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import formidable from 'formidable';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Server side of the audio storage backends (see audio-storage.ts).
+ *
+ * Multipart uploads are streamed to a temporary file by formidable rather than
+ * buffered in memory. The local backend moves that file into AUDIO_STORAGE_DIR
+ * and hands the client a key that the transcribe route resolves later. The
+ * transcribe route deletes the file once it is done; files it never picks up
+ * are swept after LOCAL_AUDIO_TTL_MS, and the store as a whole is capped.
+ */
+
+// The OpenAI transcription API rejects files above 25MB
+const MAX_AUDIO_UPLOAD_BYTES = 25 * 1024 * 1024;
+const AUDIO_STORAGE_DIR = process.env.AUDIO_STORAGE_DIR || path.join(os.tmpdir(), 'hai-lights-maker-audio');
+// Uploads that were never transcribed are removed after an hour
+const LOCAL_AUDIO_TTL_MS = 60 * 60 * 1000;
+const MAX_LOCAL_STORAGE_BYTES = Number(process.env.AUDIO_STORAGE_MAX_BYTES) || 1024 * 1024 * 1024;
+// Keys are generated by storeLocalAudio; anything else could point outside the storage directory
+const STORAGE_KEY_PATTERN = /^[0-9a-f-]{36}\.[a-z0-9]{1,5}$/i;
+
+export class AudioUploadError extends Error {
+    status: number;
+    constructor(message: string, status = 400) {
+        super(message);
+        this.name = 'AudioUploadError';
+        this.status = status;
+        Object.setPrototypeOf(this, AudioUploadError.prototype);
+    }
+}
+
+export interface AudioUpload {
+    // Temporary file holding the uploaded audio
+    filePath: string;
+    // Text fields sent along with the file
+    fields: Record<string, string>;
+}
+
+/**
+ * Stream a multipart/form-data request with a "file" part to a temporary file
+ * @param request Incoming route handler request
+ */
+export async function parseAudioUpload(request: Request): Promise<AudioUpload> {
+    if (!request.body) {
+        throw new AudioUploadError('Request has no body');
+    }
+
+    const form = formidable({
+        maxFiles: 1,
+        maxFileSize: MAX_AUDIO_UPLOAD_BYTES,
+        maxTotalFileSize: MAX_AUDIO_UPLOAD_BYTES,
+        // The transcription API detects the audio format from the extension
+        keepExtensions: true,
+        uploadDir: os.tmpdir(),
+    });
+
+    // Refuse oversized bodies before streaming any of them to disk
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_AUDIO_UPLOAD_BYTES + 1024 * 1024) {
+        throw new AudioUploadError('Audio upload is too large', 413);
+    }
+
+    // formidable reads a Node request, so adapt the web stream and its headers
+    const headers = Object.fromEntries(request.headers);
+    // formidable treats a body with neither header as empty
+    if (!headers['content-length'] && !headers['transfer-encoding']) {
+        headers['transfer-encoding'] = 'chunked';
+    }
+    const nodeRequest = Object.assign(
+        Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+        { headers }
+    ) as unknown as IncomingMessage;
+
+    let parsed: [formidable.Fields, formidable.Files];
+    try {
+        parsed = await form.parse(nodeRequest);
+    } catch (error) {
+        const status = (error as { httpCode?: number }).httpCode || 400;
+        throw new AudioUploadError(`Invalid audio upload: ${error instanceof Error ? error.message : String(error)}`, status);
+    }
+
+    const [fields, files] = parsed;
+    const file = files.file?.[0];
+    if (!file) {
+        throw new AudioUploadError('An audio file is required');
+    }
+
+    return {
+        filePath: file.filepath,
+        fields: Object.fromEntries(Object.entries(fields).map(([name, values]) => [name, values?.[0] ?? ''])),
+    };
+}
+
+/**
+ * Remove expired files from the local audio store
+ * @returns Bytes still held by the store
+ */
+async function sweepLocalAudio(): Promise<number> {
+    const now = Date.now();
+    let usedBytes = 0;
+
+    for (const name of await readdir(AUDIO_STORAGE_DIR)) {
+        const filePath = path.join(AUDIO_STORAGE_DIR, name);
+        const stats = await stat(filePath).catch(() => null);
+        if (!stats?.isFile()) continue;
+
+        if (now - stats.mtimeMs > LOCAL_AUDIO_TTL_MS) {
+            await removeAudioFile(filePath);
+        } else {
+            usedBytes += stats.size;
+        }
+    }
+    return usedBytes;
+}
+
+/**
+ * Move an uploaded file into the local audio store
+ * @returns Key to pass to the transcribe route
+ */
+export async function storeLocalAudio(filePath: string): Promise<string> {
+    await mkdir(AUDIO_STORAGE_DIR, { recursive: true });
+
+    const usedBytes = await sweepLocalAudio();
+    const { size } = await stat(filePath);
+    if (usedBytes + size > MAX_LOCAL_STORAGE_BYTES) {
+        throw new AudioUploadError('Local audio storage is full, try again later', 507);
+    }
+
+    const key = `${uuidv4()}${path.extname(filePath).toLowerCase() || '.mp3'}`;
+    const target = path.join(AUDIO_STORAGE_DIR, key);
+
+    try {
+        await rename(filePath, target);
+    } catch (error) {
+        // rename can't cross filesystems, e.g. from tmpfs to a mounted volume
+        if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+        await copyFile(filePath, target);
+        await rm(filePath, { force: true });
+    }
+    return key;
+}
+
+/**
+ * Path of a file in the local audio store
+ * @param key Key returned by storeLocalAudio
+ */
+export function resolveLocalAudio(key: string): string {
+    if (!STORAGE_KEY_PATTERN.test(key)) {
+        throw new AudioUploadError('Invalid storage key');
+    }
+    return path.join(AUDIO_STORAGE_DIR, key);
+}
+
+export function openAudioFile(filePath: string): ReadStream {
+    return createReadStream(filePath);
+}
+
+export async function removeAudioFile(filePath: string): Promise<void> {
+    await rm(filePath, { force: true }).catch(error => console.warn(`Could not remove ${filePath}:`, error));
+}
@@ -40,7 +40,8 @@ function decryptApiKey(encryptedKey: string): string {
 }
 
 // Define the provider type
-export type Provider = 'openai'
+// 'openai-compatible' is the highlights model server, 'transcription-server' the self-hosted Whisper server
+export type Provider = 'openai' | 'anthropic' | 'openai-compatible' | 'transcription-server'
 
 /**
  * Safely store API keys in sessionStorage with encryption
@@ -65,6 +66,28 @@ export function getApiKey(provider: Provider): string | null {
     return decryptApiKey(encryptedKey)
 }
 
+/**
+ * Store non-secret provider settings (base URLs, model names) in sessionStorage
+ */
+export function storeProviderSettings<T extends object>(name: string, settings: T): void {
+    sessionStorage.setItem(`providerSettings_${name}`, JSON.stringify(settings))
+}
+
+/**
+ * Retrieve provider settings stored with storeProviderSettings
+ */
+export function getProviderSettings<T extends object>(name: string): T | null {
+    const settings = sessionStorage.getItem(`providerSettings_${name}`)
+    if (!settings) return null
+
+    try {
+        return JSON.parse(settings) as T
+    } catch (error) {
+        console.error('Failed to parse provider settings:', error)
+        return null
+    }
+}
+
 /**
  * Validate the API key with the OpenAI API
  * Returns true if valid, false otherwise
@@ -0,0 +1,84 @@
+/**
+ * Helpers for running batches of network requests
+ */
+
+export interface RetryOptions {
+    // Total attempts including the first one
+    attempts?: number;
+    // Delay before the first retry, doubled after each failure
+    initialDelayMs?: number;
+    // Return false for errors that will not go away on retry
+    shouldRetry?: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a task, retrying failures with exponential backoff
+ * @param task Function starting the operation
+ * @param options Retry count, delay and error filter
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { attempts = 3, initialDelayMs = 1000, shouldRetry = () => true, onRetry } = options;
+
+    let delay = initialDelayMs;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (attempt >= attempts || !shouldRetry(error)) throw error;
+            onRetry?.(error, attempt);
+            await sleep(delay);
+            delay *= 2;
+        }
+    }
+}
+
+/**
+ * Map over items with at most `concurrency` tasks in flight, keeping result order.
+ * The first failure rejects the whole batch: no further tasks start, and the signal
+ * passed to the tasks already running is aborted.
+ * @param items Items to process
+ * @param concurrency Maximum number of tasks running at once
+ * @param task Async function applied to each item; should stop when its signal aborts
+ * @param signal Cancels the batch the same way a failure does
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+    signal?: AbortSignal
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+        onAbort();
+    } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+    }
+    let nextIndex = 0;
+
+    const runWorker = async () => {
+        while (nextIndex < items.length && !controller.signal.aborted) {
+            const index = nextIndex++;
+            try {
+                results[index] = await task(items[index], index, controller.signal);
+            } catch (error) {
+                controller.abort(error);
+                throw error;
+            }
+        }
+    };
+
+    try {
+        const workerCount = Math.max(1, Math.min(concurrency, items.length));
+        await Promise.all(Array.from({ length: workerCount }, runWorker));
+        // Workers stop quietly when the caller cancels, leaving results missing
+        controller.signal.throwIfAborted();
+        return results;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
@@ -0,0 +1,195 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { AudioPeak, ExcitementCurve, HighlightConfig, VideoSegment } from '@/types';
+
+/**
+ * Audio energy analysis that complements the transcript-based highlight search.
+ *
+ * Loudness (RMS level from astats) and spectral flux (aspectralstats) are measured
+ * for every second of the extracted audio and combined into an excitement curve.
+ * Laughter, applause and shouting show up as loud, spectrally busy stretches that
+ * the transcript doesn't capture. Peaks of the curve are passed to the highlights
+ * model as hints, and the curve is used to re-score segment confidence.
+ */
+
+const ANALYSIS_SAMPLE_RATE = 16000;
+const METADATA_FILE = 'audio-energy.txt';
+// Seconds quieter than this are treated as silence
+const SILENCE_LEVEL_DB = -50;
+// Weight of loudness vs. spectral flux in the excitement score
+const LOUDNESS_WEIGHT = 0.6;
+// Seconds averaged on each side when smoothing the curve
+const SMOOTHING_RADIUS = 2;
+// Peaks must stand this many standard deviations above the mean
+const PEAK_THRESHOLD_STDDEV = 1.5;
+const MIN_PEAK_SPACING = 10;
+const MAX_PEAKS = 20;
+
+// How much the audio score counts when re-scoring segment confidence
+const MODE_AUDIO_WEIGHTS: Record<HighlightConfig['mode'], number> = {
+    'epic': 0.4,
+    'funny': 0.4,
+    'highlights': 0.2,
+    'main-ideas': 0.1,
+    'custom': 0.2,
+};
+
+/**
+ * Parse ametadata print output into per-frame loudness and flux values
+ */
+function parseFrameMetadata(text: string): { time: number; rmsLevel: number; flux: number }[] {
+    const frames: { time: number; rmsLevel: number; flux: number }[] = [];
+    let current: { time: number; rmsLevel: number; flux: number } | null = null;
+
+    for (const line of text.split('\n')) {
+        const frameMatch = line.match(/pts_time:([\d.]+)/);
+        if (frameMatch) {
+            current = { time: parseFloat(frameMatch[1]), rmsLevel: -Infinity, flux: 0 };
+            frames.push(current);
+            continue;
+        }
+        if (!current) continue;
+
+        const [key, value] = line.trim().split('=');
+        if (key === 'lavfi.astats.Overall.RMS_level') {
+            const level = parseFloat(value);
+            current.rmsLevel = Number.isFinite(level) ? level : -Infinity;
+        } else if (key?.startsWith('lavfi.aspectralstats.') && key.endsWith('.flux')) {
+            const flux = parseFloat(value);
+            current.flux = Number.isFinite(flux) ? flux : 0;
+        }
+    }
+
+    return frames;
+}
+
+// Scale values to 0-1 between their 5th and 95th percentiles so outliers don't flatten the curve
+function normalize(values: number[]): number[] {
+    const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+    if (finite.length === 0) return values.map(() => 0);
+
+    const low = finite[Math.floor(finite.length * 0.05)];
+    const high = finite[Math.floor((finite.length - 1) * 0.95)];
+    const range = high - low || 1;
+
+    return values.map(value => Number.isFinite(value) ? Math.min(1, Math.max(0, (value - low) / range)) : 0);
+}
+
+function smooth(values: number[], radius: number): number[] {
+    return values.map((_, i) => {
+        const window = values.slice(Math.max(0, i - radius), i + radius + 1);
+        return window.reduce((sum, value) => sum + value, 0) / window.length;
+    });
+}
+
+/**
+ * Find the strongest local maxima of the curve, at least MIN_PEAK_SPACING apart
+ */
+export function findExcitementPeaks(values: number[]): AudioPeak[] {
+    if (values.length === 0) return [];
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const stddev = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    const threshold = mean + PEAK_THRESHOLD_STDDEV * stddev;
+
+    const candidates: AudioPeak[] = [];
+    for (let i = 0; i < values.length; i++) {
+        const isLocalMax = (i === 0 || values[i] >= values[i - 1]) && (i === values.length - 1 || values[i] >= values[i + 1]);
+        if (isLocalMax && values[i] > threshold) {
+            candidates.push({ time: i, score: values[i] });
+        }
+    }
+
+    const peaks: AudioPeak[] = [];
+    for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+        if (peaks.length >= MAX_PEAKS) break;
+        if (peaks.every(peak => Math.abs(peak.time - candidate.time) >= MIN_PEAK_SPACING)) {
+            peaks.push(candidate);
+        }
+    }
+
+    return peaks.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Measure per-second loudness and spectral flux of an audio file and combine
+ * them into an excitement curve
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Audio file already written to the FFmpeg filesystem
+ * @returns The excitement curve, one value (0-1) per second of audio
+ */
+export async function analyzeAudioEnergy(ffmpeg: FFmpeg, inputFileName: string): Promise<ExcitementCurve> {
+    // One-second mono frames so astats and aspectralstats report once per second
+    const exitCode = await ffmpeg.exec([
+        '-i', inputFileName,
+        '-vn',
+        '-ac', '1',
+        '-af', [
+            `aresample=${ANALYSIS_SAMPLE_RATE}`,
+            `asetnsamples=n=${ANALYSIS_SAMPLE_RATE}:p=0`,
+            'astats=metadata=1:reset=1:measure_perchannel=none:measure_overall=RMS_level',
+            'aspectralstats=measure=flux',
+            `ametadata=mode=print:file=${METADATA_FILE}`,
+        ].join(','),
+        '-f', 'null',
+        '-'
+    ]);
+    if (exitCode !== 0) {
+        throw new Error(`Audio analysis failed with exit code ${exitCode}`);
+    }
+
+    const data = await ffmpeg.readFile(METADATA_FILE, 'utf8');
+    await ffmpeg.deleteFile(METADATA_FILE);
+    const frames = parseFrameMetadata(typeof data === 'string' ? data : new TextDecoder().decode(data));
+
+    const loudness = normalize(frames.map(frame => frame.rmsLevel));
+    const flux = normalize(frames.map(frame => frame.flux));
+    const raw = frames.map((frame, i) => frame.rmsLevel < SILENCE_LEVEL_DB
+        ? 0
+        : LOUDNESS_WEIGHT * loudness[i] + (1 - LOUDNESS_WEIGHT) * flux[i]);
+
+    const values = smooth(raw, SMOOTHING_RADIUS);
+    return { values, peaks: findExcitementPeaks(values) };
+}
+
+/**
+ * Describe the audio peaks for the highlights prompt
+ */
+export function formatAudioHints(peaks: AudioPeak[]): string {
+    if (peaks.length === 0) return '';
+
+    const times = peaks.map(peak => `${peak.time}s (${peak.score.toFixed(2)})`).join(', ');
+    return `Audio analysis found loud, energetic moments (often laughter, applause or excitement) at these times, with their strength from 0 to 1: ${times}. Consider them when choosing segments.`;
+}
+
+/**
+ * Average excitement over a time range, blended with the peak value so one big
+ * reaction inside a longer segment still counts
+ */
+function getSegmentExcitement(curve: ExcitementCurve, start: number, end: number): number {
+    const slice = curve.values.slice(Math.floor(start), Math.ceil(end));
+    if (slice.length === 0) return 0;
+
+    const mean = slice.reduce((sum, value) => sum + value, 0) / slice.length;
+    return (mean + Math.max(...slice)) / 2;
+}
+
+/**
+ * Blend each segment's confidence with its audio excitement
+ * @param segments Segments to re-score
+ * @param curve Excitement curve of the audio
+ * @param mode Highlight mode, which decides how much the audio counts
+ */
+export function rescoreWithExcitement(
+    segments: VideoSegment[],
+    curve: ExcitementCurve,
+    mode: HighlightConfig['mode']
+): VideoSegment[] {
+    const weight = MODE_AUDIO_WEIGHTS[mode];
+    if (curve.values.length === 0 || !weight) return segments;
+
+    return segments.map(segment => {
+        const excitement = getSegmentExcitement(curve, segment.start, segment.end);
+        const confidence = segment.confidence ?? 0.5;
+        return { ...segment, confidence: (1 - weight) * confidence + weight * excitement };
+    });
+}
@@ -0,0 +1,198 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+/**
+ * Splitting extracted audio into pieces small enough for the transcription API.
+ *
+ * Cut points are placed in detected silences so no word is split between two
+ * requests. When a stretch of audio has no usable silence the cut falls back to
+ * the size limit.
+ */
+
+// Whisper rejects uploads over 25 MB; stay well below it since MP3 bitrate varies
+export const MAX_TRANSCRIPTION_CHUNK_BYTES = 20 * 1024 * 1024;
+// Noise floor and minimum length for a pause to count as silence
+const SILENCE_NOISE_THRESHOLD = '-35dB';
+const SILENCE_MIN_DURATION = 0.4;
+// Only cut in silences in the second half of a chunk so chunks don't get tiny
+const MIN_CHUNK_FILL = 0.5;
+
+// Whisper models expect 16kHz mono audio
+export const WHISPER_SAMPLE_RATE = 16000;
+
+export interface SilenceInterval {
+    start: number;
+    end: number;
+}
+
+export interface AudioChunk {
+    blob: Blob;
+    // Position of the chunk in the source audio, in seconds
+    start: number;
+    end: number;
+}
+
+/**
+ * Find the silent stretches of an audio file with FFmpeg's silencedetect filter
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Audio file already written to the FFmpeg filesystem
+ * @param duration Duration of the audio in seconds, closes a trailing silence
+ */
+export async function detectSilences(ffmpeg: FFmpeg, inputFileName: string, duration: number): Promise<SilenceInterval[]> {
+    const silences: SilenceInterval[] = [];
+    let silenceStart: number | null = null;
+
+    const handleLog = ({ message }: { message: string }) => {
+        const startMatch = message.match(/silence_start:\s*(-?[\d.]+)/);
+        if (startMatch) {
+            silenceStart = Math.max(0, parseFloat(startMatch[1]));
+            return;
+        }
+        const endMatch = message.match(/silence_end:\s*([\d.]+)/);
+        if (endMatch && silenceStart !== null) {
+            silences.push({ start: silenceStart, end: parseFloat(endMatch[1]) });
+            silenceStart = null;
+        }
+    };
+
+    ffmpeg.on('log', handleLog);
+    try {
+        await ffmpeg.exec([
+            '-i', inputFileName,
+            '-af', `silencedetect=noise=${SILENCE_NOISE_THRESHOLD}:d=${SILENCE_MIN_DURATION}`,
+            '-f', 'null',
+            '-'
+        ]);
+    } finally {
+        ffmpeg.off('log', handleLog);
+    }
+
+    if (silenceStart !== null) {
+        silences.push({ start: silenceStart, end: duration });
+    }
+
+    return silences;
+}
+
+/**
+ * Choose chunk boundaries no longer than maxChunkDuration, cutting in the middle
+ * of the latest silence that fits in each chunk
+ * @param duration Duration of the audio in seconds
+ * @param silences Silent intervals sorted by start time
+ * @param maxChunkDuration Longest allowed chunk in seconds
+ */
+export function planAudioChunks(
+    duration: number,
+    silences: SilenceInterval[],
+    maxChunkDuration: number
+): { start: number; end: number }[] {
+    const chunks: { start: number; end: number }[] = [];
+    let chunkStart = 0;
+
+    while (duration - chunkStart > maxChunkDuration) {
+        const latestEnd = chunkStart + maxChunkDuration;
+        const earliestEnd = chunkStart + maxChunkDuration * MIN_CHUNK_FILL;
+
+        let chunkEnd = latestEnd;
+        for (const silence of silences) {
+            const midpoint = (silence.start + silence.end) / 2;
+            if (midpoint > latestEnd) break;
+            if (midpoint >= earliestEnd) chunkEnd = midpoint;
+        }
+
+        chunks.push({ start: chunkStart, end: chunkEnd });
+        chunkStart = chunkEnd;
+    }
+
+    chunks.push({ start: chunkStart, end: duration });
+    return chunks;
+}
+
+/**
+ * Split an audio file on silence into chunks under a size limit.
+ * Audio already under the limit is returned as a single chunk.
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName MP3 file already written to the FFmpeg filesystem
+ * @param audioBlob The same audio as a blob, used for the size estimate
+ * @param duration Duration of the audio in seconds
+ * @param maxChunkBytes Size limit for each chunk
+ */
+export async function splitAudioOnSilence(
+    ffmpeg: FFmpeg,
+    inputFileName: string,
+    audioBlob: Blob,
+    duration: number,
+    maxChunkBytes: number = MAX_TRANSCRIPTION_CHUNK_BYTES
+): Promise<AudioChunk[]> {
+    if (audioBlob.size <= maxChunkBytes || duration <= 0) {
+        return [{ blob: audioBlob, start: 0, end: duration }];
+    }
+
+    // Size-bound the chunks by duration using the average bitrate of the file
+    const bytesPerSecond = audioBlob.size / duration;
+    const maxChunkDuration = maxChunkBytes / bytesPerSecond;
+
+    const silences = await detectSilences(ffmpeg, inputFileName, duration);
+    const plan = planAudioChunks(duration, silences, maxChunkDuration);
+    console.log(`Splitting ${(audioBlob.size / (1024 * 1024)).toFixed(2)}MB of audio into ${plan.length} chunks (${silences.length} silences found)`);
+
+    const chunks: AudioChunk[] = [];
+    for (let i = 0; i < plan.length; i++) {
+        const { start, end } = plan[i];
+        const chunkFileName = `audio-chunk-${i}.mp3`;
+
+        // Stream copy is enough for MP3 and keeps splitting fast
+        await ffmpeg.exec([
+            '-ss', start.toFixed(3),
+            '-i', inputFileName,
+            '-t', (end - start).toFixed(3),
+            '-c', 'copy',
+            chunkFileName
+        ]);
+
+        const data = await ffmpeg.readFile(chunkFileName);
+        await ffmpeg.deleteFile(chunkFileName);
+        if (!(data instanceof Uint8Array) || data.length === 0) {
+            throw new Error(`Failed to split audio: chunk ${i + 1} is empty`);
+        }
+
+        chunks.push({ blob: new Blob([data], { type: 'audio/mpeg' }), start, end });
+    }
+
+    return chunks;
+}
+
+/**
+ * Decode part of an audio file into 16kHz mono samples for in-browser Whisper.
+ * A minute of audio takes about 4MB, so long recordings are decoded piece by piece.
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Audio file already written to the FFmpeg filesystem
+ * @param start Start of the piece in seconds
+ * @param end End of the piece in seconds
+ */
+export async function decodeAudioToPcm(ffmpeg: FFmpeg, inputFileName: string, start: number, end: number): Promise<Float32Array> {
+    const pcmFileName = 'audio-pcm.f32';
+    const exitCode = await ffmpeg.exec([
+        '-ss', start.toFixed(3),
+        '-i', inputFileName,
+        '-t', (end - start).toFixed(3),
+        '-vn',
+        '-ac', '1',
+        '-ar', String(WHISPER_SAMPLE_RATE),
+        '-f', 'f32le',
+        pcmFileName
+    ]);
+    if (exitCode !== 0) {
+        throw new Error(`Audio decoding failed with exit code ${exitCode}`);
+    }
+
+    const data = await ffmpeg.readFile(pcmFileName);
+    await ffmpeg.deleteFile(pcmFileName);
+    if (!(data instanceof Uint8Array) || data.length === 0) {
+        throw new Error('Audio decoding produced no samples');
+    }
+
+    // readFile returns a fresh copy, so its buffer can be viewed directly when aligned
+    return data.byteOffset % 4 === 0
+        ? new Float32Array(data.buffer, data.byteOffset, Math.floor(data.length / 4))
+        : new Float32Array(data.slice().buffer, 0, Math.floor(data.length / 4));
+}
@@ -0,0 +1,135 @@
+import * as Comlink from 'comlink';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import type { ProgressInfo } from '@huggingface/transformers';
+import { TranscriptionResult } from '@/types';
+import type { TranscriptionWorkerApi } from '@/lib/workers/transcription.worker';
+import { decodeAudioToPcm, detectSilences, planAudioChunks } from '@/lib/utils/audio-utils';
+import { stitchTranscriptionResults } from '@/lib/utils/transcript-utils';
+
+/**
+ * In-browser transcription with a Whisper model running in a worker, for users
+ * who can't send audio to any server.
+ *
+ * The model is downloaded from the Hugging Face Hub on first use and cached by
+ * the browser. Audio is cut into pieces at silences, and each piece is decoded to
+ * 16kHz samples with FFmpeg just before it is transcribed, so long videos never
+ * hold more than one piece of samples in memory and progress updates regularly.
+ */
+
+export const BROWSER_WHISPER_MODELS = [
+    { value: 'onnx-community/whisper-tiny_timestamped', label: 'Tiny (fastest, smallest download)' },
+    { value: 'onnx-community/whisper-base_timestamped', label: 'Base' },
+    { value: 'onnx-community/whisper-small_timestamped', label: 'Small (most accurate, largest download)' },
+];
+export const DEFAULT_BROWSER_WHISPER_MODEL = 'onnx-community/whisper-base_timestamped';
+
+// Length of the pieces sent to the worker at a time
+const PIECE_DURATION = 300;
+
+export interface BrowserTranscriptionProgress {
+    stage: 'loading' | 'transcribing';
+    // Progress of the stage from 0 to 1
+    progress: number;
+    message: string;
+}
+
+let workerInstance: Worker | null = null;
+let transcriber: Comlink.Remote<TranscriptionWorkerApi> | null = null;
+
+function getTranscriber(): Comlink.Remote<TranscriptionWorkerApi> {
+    if (!transcriber) {
+        workerInstance = new Worker(new URL('../workers/transcription.worker.ts', import.meta.url), { type: 'module' });
+        transcriber = Comlink.wrap<TranscriptionWorkerApi>(workerInstance);
+    }
+    return transcriber;
+}
+
+// Terminate the transcription worker and free the model
+export function releaseBrowserTranscriber(): void {
+    if (workerInstance) {
+        console.log('Releasing transcription worker');
+        workerInstance.terminate();
+    }
+    workerInstance = null;
+    transcriber = null;
+}
+
+// Comlink calls never settle once their worker is terminated, so cancel by racing them with the signal
+function withAbort<T>(call: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return call;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            // Stop the model mid-inference; the next call starts a fresh worker
+            releaseBrowserTranscriber();
+            reject(signal.reason ?? new DOMException('The operation was aborted', 'AbortError'));
+        };
+        if (signal.aborted) {
+            onAbort();
+            return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        call.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * Transcribe an audio file in the browser
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Audio file already written to the FFmpeg filesystem
+ * @param duration Duration of the audio in seconds
+ * @param model Whisper model id, one of BROWSER_WHISPER_MODELS
+ * @param onProgress Called while the model downloads and as pieces are transcribed
+ * @param signal Cancels the transcription and terminates the transcription worker
+ */
+export async function transcribeInBrowser(
+    ffmpeg: FFmpeg,
+    inputFileName: string,
+    duration: number,
+    model: string = DEFAULT_BROWSER_WHISPER_MODEL,
+    onProgress?: (progress: BrowserTranscriptionProgress) => void,
+    signal?: AbortSignal
+): Promise<TranscriptionResult> {
+    const worker = getTranscriber();
+
+    // Sum bytes over all model files so progress doesn't jump back as each file starts
+    const files = new Map<string, { loaded: number; total: number }>();
+    await withAbort(worker.load(model, Comlink.proxy((info: ProgressInfo) => {
+        if (info.status !== 'progress') return;
+        files.set(info.file, { loaded: info.loaded, total: info.total });
+
+        const totals = [...files.values()].reduce(
+            (sum, file) => ({ loaded: sum.loaded + file.loaded, total: sum.total + file.total }),
+            { loaded: 0, total: 0 }
+        );
+        const progress = totals.total > 0 ? totals.loaded / totals.total : 0;
+        onProgress?.({
+            stage: 'loading',
+            progress,
+            message: `Downloading Whisper model: ${Math.round(progress * 100)}% of ${(totals.total / (1024 * 1024)).toFixed(0)}MB`,
+        });
+    })), signal);
+    console.log(`Whisper model ${model} loaded`);
+
+    const silences = duration > PIECE_DURATION ? await detectSilences(ffmpeg, inputFileName, duration) : [];
+    const pieces = planAudioChunks(duration, silences, PIECE_DURATION);
+    console.log(`Transcribing ${duration.toFixed(0)}s of audio in the browser in ${pieces.length} piece(s)`);
+
+    const results: { result: TranscriptionResult; offset: number }[] = [];
+    for (let i = 0; i < pieces.length; i++) {
+        onProgress?.({
+            stage: 'transcribing',
+            progress: i / pieces.length,
+            message: pieces.length > 1
+                ? `Transcribing in the browser (${i + 1}/${pieces.length})...`
+                : 'Transcribing in the browser...',
+        });
+
+        const { start, end } = pieces[i];
+        const piece = await decodeAudioToPcm(ffmpeg, inputFileName, start, end);
+        const result = await withAbort(worker.transcribe(Comlink.transfer(piece, [piece.buffer]), model), signal);
+        results.push({ result, offset: start });
+    }
+
+    onProgress?.({ stage: 'transcribing', progress: 1, message: 'Transcription complete' });
+    return stitchTranscriptionResults(results);
+}
@@ -0,0 +1,350 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile } from '@ffmpeg/util';
+import { CaptionStyle, ProcessedVideo, TranscriptionResult, VideoSegment } from '@/types';
+import { CAPTION_FONT_NAME, CAPTION_FONT_URL, CAPTION_SCRIPT_FONTS } from '@/lib/config';
+import { WORKER_CACHE_DIR } from '@/lib/utils/ffmpeg-pool';
+
+/**
+ * Caption generation for highlight clips.
+ *
+ * Transcript text overlapping each segment is rebased onto the clip timeline
+ * (segments are laid end to end, like the exported video) and rendered as an
+ * ASS subtitle file that FFmpeg burns into the picture.
+ */
+
+export interface CaptionWord {
+    text: string;
+    start: number;
+    end: number;
+}
+
+export interface CaptionCue {
+    // Times are relative to the start of the clip
+    start: number;
+    end: number;
+    text: string;
+    words?: CaptionWord[];
+}
+
+export interface CaptionOptions {
+    style: CaptionStyle;
+    transcriptionResult: TranscriptionResult;
+}
+
+/**
+ * Caption options for a processed video, or undefined when captions are off
+ * or there is no transcript to caption from.
+ */
+export function getCaptionOptions(processedVideo: ProcessedVideo): CaptionOptions | undefined {
+    const style = processedVideo.highlightConfig.captionStyle;
+    if (!style || style === 'none' || !processedVideo.transcriptionResult) return undefined;
+    return { style, transcriptionResult: processedVideo.transcriptionResult };
+}
+
+// Limits used when splitting word-level transcripts into readable cues
+const MAX_WORDS_PER_CUE = 6;
+const MAX_CUE_DURATION = 3.5;
+const MAX_WORD_GAP = 0.6;
+
+export const CAPTION_ASS_FILE = 'captions.ass';
+// Fonts stay on the worker, so each one is fetched and written once per worker
+const CAPTION_FONTS_DIR = `${WORKER_CACHE_DIR}/fonts`;
+
+/**
+ * Collect the transcript that overlaps each segment and rebase it onto the clip
+ * timeline. Segments are assumed to be played back to back in the given order.
+ * @param transcriptionResult Transcription of the source video
+ * @param segments Segments making up the clip
+ * @returns Caption cues relative to the start of the clip
+ */
+export function buildCaptionCues(transcriptionResult: TranscriptionResult, segments: VideoSegment[]): CaptionCue[] {
+    const cues: CaptionCue[] = [];
+    let offset = 0;
+
+    for (const segment of segments) {
+        const rebase = (time: number) => Math.min(segment.end, Math.max(segment.start, time)) - segment.start + offset;
+
+        if (transcriptionResult.words && transcriptionResult.words.length > 0) {
+            // Keep words whose midpoint falls inside the segment
+            const words = transcriptionResult.words
+                .filter(word => {
+                    const midpoint = (word.start + word.end) / 2;
+                    return midpoint >= segment.start && midpoint <= segment.end;
+                })
+                .map(word => ({ text: word.word.trim(), start: rebase(word.start), end: rebase(word.end) }))
+                .filter(word => word.text.length > 0);
+
+            cues.push(...groupWordsIntoCues(words));
+        } else if (transcriptionResult.segments) {
+            for (const transcriptSegment of transcriptionResult.segments) {
+                if (transcriptSegment.end <= segment.start || transcriptSegment.start >= segment.end) continue;
+
+                const text = transcriptSegment.text.trim();
+                if (!text) continue;
+
+                cues.push({
+                    start: rebase(transcriptSegment.start),
+                    end: rebase(transcriptSegment.end),
+                    text,
+                });
+            }
+        }
+
+        offset += segment.end - segment.start;
+    }
+
+    return cues.filter(cue => cue.end > cue.start);
+}
+
+// Split a run of words into short cues, breaking on pauses and sentence ends
+function groupWordsIntoCues(words: CaptionWord[]): CaptionCue[] {
+    const cues: CaptionCue[] = [];
+    let current: CaptionWord[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        cues.push({
+            start: current[0].start,
+            end: current[current.length - 1].end,
+            text: current.map(word => word.text).join(' '),
+            words: current,
+        });
+        current = [];
+    };
+
+    for (const word of words) {
+        const previous = current[current.length - 1];
+        if (previous && (
+            current.length >= MAX_WORDS_PER_CUE ||
+            word.end - current[0].start > MAX_CUE_DURATION ||
+            word.start - previous.end > MAX_WORD_GAP
+        )) {
+            flush();
+        }
+
+        current.push(word);
+
+        if (/[.!?]$/.test(word.text)) {
+            flush();
+        }
+    }
+    flush();
+
+    return cues;
+}
+
+// Format seconds as an ASS timestamp (h:mm:ss.cc)
+function formatAssTime(seconds: number): string {
+    const totalCentiseconds = Math.max(0, Math.round(seconds * 100));
+    const hours = Math.floor(totalCentiseconds / 360000);
+    const minutes = Math.floor((totalCentiseconds % 360000) / 6000);
+    const secs = Math.floor((totalCentiseconds % 6000) / 100);
+    const centiseconds = totalCentiseconds % 100;
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
+}
+
+// Strip characters that would be read as ASS override blocks or line breaks
+function escapeAssText(text: string): string {
+    return text.replace(/[{}]/g, '').replace(/\\/g, '').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Style line for each caption style. Colours are &HAABBGGRR.
+ */
+function getAssStyle(style: Exclude<CaptionStyle, 'none'>, width: number, height: number): string {
+    const base = Math.min(width, height);
+    const format = (fields: (string | number)[]) => `Style: Default,${fields.join(',')}`;
+
+    switch (style) {
+        case 'karaoke':
+            // Words turn yellow as they are spoken
+            return format([
+                CAPTION_FONT_NAME, Math.round(base * 0.075),
+                '&H0000FFFF', '&H00FFFFFF', '&H00000000', '&H80000000',
+                -1, 0, 0, 0, 100, 100, 0, 0,
+                1, Math.max(2, Math.round(base * 0.006)), 0,
+                2, Math.round(width * 0.06), Math.round(width * 0.06), Math.round(height * 0.18), 1
+            ]);
+        case 'bold-centered':
+            return format([
+                CAPTION_FONT_NAME, Math.round(base * 0.09),
+                '&H00FFFFFF', '&H00FFFFFF', '&H00000000', '&H80000000',
+                -1, 0, 0, 0, 100, 100, 0, 0,
+                1, Math.max(3, Math.round(base * 0.009)), Math.max(1, Math.round(base * 0.004)),
+                5, Math.round(width * 0.08), Math.round(width * 0.08), 0, 1
+            ]);
+        case 'lower-third':
+            // Opaque box anchored to the bottom left
+            return format([
+                CAPTION_FONT_NAME, Math.round(base * 0.05),
+                '&H00FFFFFF', '&H00FFFFFF', '&H60000000', '&H60000000',
+                0, 0, 0, 0, 100, 100, 0, 0,
+                3, Math.max(4, Math.round(base * 0.012)), 0,
+                1, Math.round(width * 0.05), Math.round(width * 0.3), Math.round(height * 0.08), 1
+            ]);
+    }
+}
+
+// Font for a caption line, or undefined when the default font covers its script
+function getScriptFont(text: string) {
+    return CAPTION_SCRIPT_FONTS.find(font => font.script.test(text));
+}
+
+// Build the dialogue text for a cue in the given style
+function getCueText(cue: CaptionCue, style: Exclude<CaptionStyle, 'none'>): string {
+    const scriptFont = getScriptFont(cue.text);
+    const fontOverride = scriptFont ? `{\\fn${scriptFont.name}}` : '';
+
+    if (style === 'karaoke' && cue.words && cue.words.length > 0) {
+        // \k durations are in centiseconds and include the pause before the next word
+        return fontOverride + cue.words.map((word, i) => {
+            const nextStart = i < cue.words!.length - 1 ? cue.words![i + 1].start : cue.end;
+            const duration = Math.max(1, Math.round((nextStart - word.start) * 100));
+            return `{\\k${duration}}${escapeAssText(word.text)}`;
+        }).join(' ');
+    }
+
+    const text = escapeAssText(cue.text);
+    return fontOverride + (style === 'bold-centered' ? text.toUpperCase() : text);
+}
+
+/**
+ * Generate an ASS subtitle file for the given cues
+ * @param cues Caption cues relative to the start of the clip
+ * @param style Caption style to render
+ * @param dimensions Output video dimensions, used as the script resolution
+ * @returns ASS file content
+ */
+export function generateAssSubtitles(
+    cues: CaptionCue[],
+    style: Exclude<CaptionStyle, 'none'>,
+    dimensions: { width: number; height: number }
+): string {
+    const { width, height } = dimensions;
+
+    const lines = [
+        '[Script Info]',
+        'ScriptType: v4.00+',
+        `PlayResX: ${width}`,
+        `PlayResY: ${height}`,
+        'WrapStyle: 0',
+        'ScaledBorderAndShadow: yes',
+        '',
+        '[V4+ Styles]',
+        'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+        getAssStyle(style, width, height),
+        '',
+        '[Events]',
+        'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+        ...cues.map(cue => `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(cue.end)},Default,,0,0,0,,${getCueText(cue, style)}`),
+    ];
+
+    return lines.join('\n') + '\n';
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+// Format seconds as an SRT (00:00:00,000) or WebVTT (00:00:00.000) timestamp
+function formatSubtitleTime(seconds: number, format: SubtitleFormat): string {
+    const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+    const hours = Math.floor(totalMilliseconds / 3600000);
+    const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+    const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+    const milliseconds = totalMilliseconds % 1000;
+    const separator = format === 'srt' ? ',' : '.';
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${milliseconds.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Generate an SRT or WebVTT subtitle file for the given cues
+ * @param cues Caption cues relative to the start of the clip
+ * @param format Subtitle file format
+ * @returns Subtitle file content
+ */
+export function generateSubtitles(cues: CaptionCue[], format: SubtitleFormat): string {
+    const blocks = cues.map((cue, i) => {
+        const timing = `${formatSubtitleTime(cue.start, format)} --> ${formatSubtitleTime(cue.end, format)}`;
+        return `${i + 1}\n${timing}\n${cue.text}`;
+    });
+
+    const content = blocks.join('\n\n') + '\n';
+    return format === 'vtt' ? `WEBVTT\n\n${content}` : content;
+}
+
+/**
+ * Download a subtitle file for a clip made of the given segments
+ * @param transcriptionResult Transcription of the source video
+ * @param segments Segments making up the clip, in playback order
+ * @param format Subtitle file format
+ * @param baseName File name without extension
+ */
+export function downloadSubtitles(
+    transcriptionResult: TranscriptionResult,
+    segments: VideoSegment[],
+    format: SubtitleFormat,
+    baseName: string
+): void {
+    const cues = buildCaptionCues(transcriptionResult, segments);
+    const mimeType = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    const blob = new Blob([generateSubtitles(cues, format)], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${baseName}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    // Revoking right after the click can cancel the download in some browsers, so give it a moment
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Write the caption file and the fonts its lines use into the FFmpeg filesystem.
+ * @returns The video filter that burns the captions in, or null when there is nothing to burn
+ */
+export async function prepareCaptionFilter(
+    ffmpegInstance: FFmpeg,
+    captions: CaptionOptions,
+    segments: VideoSegment[],
+    dimensions: { width: number; height: number }
+): Promise<string | null> {
+    if (captions.style === 'none') return null;
+
+    const cues = buildCaptionCues(captions.transcriptionResult, segments);
+    if (cues.length === 0) {
+        console.log('No transcript overlaps these segments, skipping captions');
+        return null;
+    }
+
+    const assContent = generateAssSubtitles(cues, captions.style, dimensions);
+    await ffmpegInstance.writeFile(CAPTION_ASS_FILE, new TextEncoder().encode(assContent));
+
+    try {
+        await ffmpegInstance.createDir(CAPTION_FONTS_DIR);
+    } catch {
+        // Directory already exists from a previous clip on this instance
+    }
+
+    // Fonts for other scripts are large, so only fetch the ones these captions need
+    const fontUrls = new Set([CAPTION_FONT_URL]);
+    for (const cue of cues) {
+        const scriptFont = getScriptFont(cue.text);
+        if (scriptFont) fontUrls.add(scriptFont.url);
+    }
+    const writtenFonts = new Set((await ffmpegInstance.listDir(CAPTION_FONTS_DIR)).map(entry => entry.name));
+    for (const fontUrl of fontUrls) {
+        const fontName = fontUrl.split('/').pop()!;
+        if (writtenFonts.has(fontName)) continue;
+        try {
+            await ffmpegInstance.writeFile(`${CAPTION_FONTS_DIR}/${fontName}`, await fetchFile(fontUrl));
+        } catch (error) {
+            // Lines in that script render as empty boxes, which beats failing the whole render
+            if (fontUrl === CAPTION_FONT_URL) throw error;
+            console.warn(`Could not load caption font ${fontName}:`, error);
+        }
+    }
+
+    console.log(`Prepared ${cues.length} ${captions.style} caption cues`);
+    return `ass=${CAPTION_ASS_FILE}:fontsdir=${CAPTION_FONTS_DIR}`;
+}
@@ -7,36 +7,68 @@ interface NavigatorWithMemory extends Navigator {
     deviceMemory?: number;
 }
 
+// Absolute upload limit. ffmpeg.wasm is a 32-bit build and reads past 2 GiB of a
+// mounted file are untested, so larger files are refused outright.
+export const HARD_MAX_VIDEO_SIZE = 2 * 1024 * 1024 * 1024; // 2 GiB
+
+// Share of the device's memory a source may take up: rendered clips are held in
+// memory until they are saved, and saved projects keep a copy of the source
+const MEMORY_SHARE = 0.25;
+// Memory assumed when the browser doesn't report it (Firefox, Safari)
+const DEFAULT_DEVICE_MEMORY_GB = 4;
+// Share of the free storage quota a project's copy of the source may use
+const STORAGE_SHARE = 0.5;
+
 /**
- * Calculate maximum video size based on device capabilities
+ * Calculate the recommended maximum video size from the device's memory and the
+ * storage quota left for saving the project
  * @returns Maximum recommended video size in bytes
  */
-export function getMaxVideoSize(): number {
-    // Base size that most devices can handle
-    let maxSizeMB = 50;
+export async function getMaxVideoSize(): Promise<number> {
+    // Browsers round deviceMemory down and cap it at 8GB, so this errs on the low side
+    const memoryGB = (navigator as NavigatorWithMemory).deviceMemory || DEFAULT_DEVICE_MEMORY_GB;
+    let maxSize = memoryGB * MEMORY_SHARE * 1024 * 1024 * 1024;
+
+    if (navigator.storage?.estimate) {
+        try {
+            const { quota, usage } = await navigator.storage.estimate();
+            if (quota !== undefined) {
+                maxSize = Math.min(maxSize, Math.max(0, quota - (usage || 0)) * STORAGE_SHARE);
+            }
+        } catch (error) {
+            console.warn('Could not estimate storage quota:', error);
+        }
+    }
 
-    // Adjust based on CPU cores
+    return Math.min(maxSize, HARD_MAX_VIDEO_SIZE);
+}
+
+/**
+ * Calculate how many FFmpeg workers can run side by side
+ * @returns Maximum number of concurrent FFmpeg workers
+ */
+export function getFFmpegPoolSize(): number {
+    // Each worker encodes on a single thread; leave the other half of the cores to the page
     const cpuCores = navigator.hardwareConcurrency || 2;
-    if (cpuCores >= 8) maxSizeMB = 400;
-    else if (cpuCores >= 4) maxSizeMB = 200;
+    let poolSize = Math.min(4, Math.max(1, Math.floor(cpuCores / 2)));
 
-    // Adjust based on available memory (if supported)
+    // Every worker has its own heap for decoding, encoding and the clips it writes
     if ('deviceMemory' in navigator) {
         const nav = navigator as NavigatorWithMemory;
         const memoryGB = nav.deviceMemory || 0;
-        if (memoryGB >= 8) maxSizeMB = Math.max(maxSizeMB, 600);
-        else if (memoryGB >= 4) maxSizeMB = Math.max(maxSizeMB, 300);
+        if (memoryGB < 4) poolSize = 1;
+        else if (memoryGB < 8) poolSize = Math.min(poolSize, 2);
     }
 
-    // Check if it's a mobile device
-    const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(
-        navigator.userAgent
-    );
-    if (isMobile) {
-        maxSizeMB = Math.min(maxSizeMB, 100); // Cap mobile to 100MB
+    if (isMobileDevice()) {
+        poolSize = 1;
     }
 
-    return maxSizeMB * 1024 * 1024; // Return bytes
+    return poolSize;
+}
+
+function isMobileDevice(): boolean {
+    return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
 }
 
 /**
@@ -56,19 +88,3 @@ export function formatFileSize(bytes: number, decimals = 1): string {
 
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 }
-
-/**
- * Estimate video processing time based on file size and device capabilities
- * @param fileSize File size in bytes
- * @returns Estimated processing time in minutes
- */
-export function estimateProcessingTime(fileSize: number): number {
-    const cpuCores = navigator.hardwareConcurrency || 2;
-
-    // Basic formula: size in MB × factor / CPU cores
-    // This is a very rough estimate and should be calibrated based on actual performance
-    const sizeMB = fileSize / (1024 * 1024);
-    const processingFactor = 0.5; // Adjust based on actual performance measurements
-
-    return Math.ceil((sizeMB * processingFactor) / cpuCores);
-} 
\ No newline at end of file
@@ -0,0 +1,276 @@
+import { FFFSType, FFmpeg } from '@ffmpeg/ffmpeg';
+import { FFMPEG_CORE_URL, FFMPEG_WASM_URL } from '@/lib/config';
+import { getFFmpegPoolSize } from '@/lib/utils/device-utils';
+
+/**
+ * Pool of FFmpeg workers shared by everything that runs FFmpeg in the browser.
+ *
+ * Every FFmpeg instance runs in its own web worker with its own virtual filesystem.
+ * A job leases one instance for its whole run, so jobs on different workers can
+ * use the same file names without interfering. When a job finishes, everything it
+ * created in the filesystem is removed before the worker takes the next job, except
+ * what it put in WORKER_CACHE_DIR for later jobs on the same worker. A
+ * worker whose job failed or was cancelled is terminated rather than reused, since
+ * its filesystem and heap can't be trusted, and idle workers are terminated after
+ * a while to give their memory back.
+ *
+ * Source videos are mounted with WORKERFS rather than written to the in-memory
+ * filesystem. FFmpeg then reads them lazily from the browser's File, so a large
+ * upload doesn't need a full copy in every worker's heap.
+ */
+
+// Idle workers are terminated after this long; loading a new one takes about a second
+const IDLE_WORKER_TIMEOUT_MS = 30000;
+
+// Kept across jobs on a worker, for files that are slow to fetch and write, such as caption fonts
+export const WORKER_CACHE_DIR = 'cache';
+
+export type FFmpegJob<T> = (ffmpeg: FFmpeg) => Promise<T>;
+
+export interface FFmpegJobOptions {
+    // Cancels the job, terminating its worker if it has already started
+    signal?: AbortSignal;
+    // Name of the job in the processing log
+    label?: string;
+}
+
+interface PooledWorker {
+    id: number;
+    ffmpeg: FFmpeg;
+    busy: boolean;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Waiter {
+    resolve: (worker: PooledWorker) => void;
+    reject: (error: unknown) => void;
+}
+
+const workers: PooledWorker[] = [];
+const waiters: Waiter[] = [];
+// Mount points created by the job running on each instance
+const mountPoints = new WeakMap<FFmpeg, string[]>();
+let nextWorkerId = 1;
+let nextMountId = 1;
+
+function getAbortError(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+}
+
+function claimWorker(worker: PooledWorker): void {
+    worker.busy = true;
+    if (worker.idleTimer) {
+        clearTimeout(worker.idleTimer);
+        worker.idleTimer = null;
+    }
+}
+
+async function createWorker(): Promise<PooledWorker> {
+    // Added before loading so the pool counts it against its size straight away
+    const worker: PooledWorker = { id: nextWorkerId++, ffmpeg: new FFmpeg(), busy: true, idleTimer: null };
+    workers.push(worker);
+
+    try {
+        // Self-hosted core files are needed to comply with Cross-Origin-Embedder-Policy (COEP)
+        await worker.ffmpeg.load({ coreURL: FFMPEG_CORE_URL, wasmURL: FFMPEG_WASM_URL });
+        // Created before any job, so the cleanup after each job leaves it alone
+        await worker.ffmpeg.createDir(WORKER_CACHE_DIR);
+    } catch (error) {
+        console.error('FFMPEG_LOAD_FAILED: A critical error occurred while loading FFmpeg.', error);
+        discardWorker(worker);
+        throw new Error(`FFmpeg loading failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`FFmpeg worker ${worker.id} loaded (${workers.length}/${getFFmpegPoolSize()} in pool)`);
+    return worker;
+}
+
+// Hand free or newly created workers to jobs waiting in line
+function serveWaiters(): void {
+    while (waiters.length > 0) {
+        const idle = workers.find(worker => !worker.busy);
+        if (idle) {
+            claimWorker(idle);
+            waiters.shift()!.resolve(idle);
+        } else if (workers.length < getFFmpegPoolSize()) {
+            const waiter = waiters.shift()!;
+            createWorker().then(waiter.resolve, waiter.reject);
+        } else {
+            return;
+        }
+    }
+}
+
+function acquireWorker(signal?: AbortSignal): Promise<PooledWorker> {
+    if (signal?.aborted) {
+        return Promise.reject(getAbortError(signal));
+    }
+
+    const idle = workers.find(worker => !worker.busy);
+    if (idle) {
+        claimWorker(idle);
+        return Promise.resolve(idle);
+    }
+    if (workers.length < getFFmpegPoolSize()) {
+        return createWorker();
+    }
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            // Once a worker is being loaded for this waiter, runFFmpegJob hands it back instead
+            const index = waiters.indexOf(waiter);
+            if (index === -1) return;
+            waiters.splice(index, 1);
+            reject(getAbortError(signal!));
+        };
+        const waiter: Waiter = {
+            resolve: worker => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(worker);
+            },
+            reject: error => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        };
+        waiters.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function returnWorker(worker: PooledWorker): void {
+    worker.busy = false;
+    worker.idleTimer = setTimeout(() => {
+        if (!worker.busy) {
+            console.log(`Terminating FFmpeg worker ${worker.id} after ${IDLE_WORKER_TIMEOUT_MS / 1000}s idle`);
+            discardWorker(worker);
+        }
+    }, IDLE_WORKER_TIMEOUT_MS);
+    serveWaiters();
+}
+
+function discardWorker(worker: PooledWorker): void {
+    const index = workers.indexOf(worker);
+    if (index === -1) return;
+    workers.splice(index, 1);
+
+    if (worker.idleTimer) {
+        clearTimeout(worker.idleTimer);
+        worker.idleTimer = null;
+    }
+    try {
+        // Rejects any call still pending on the worker
+        worker.ffmpeg.terminate();
+    } catch (error) {
+        console.warn(`Error terminating FFmpeg worker ${worker.id}:`, error);
+    }
+
+    // A slot opened up for the next job in line
+    serveWaiters();
+}
+
+/**
+ * Make a file readable by FFmpeg without copying it into memory. Only valid inside
+ * a job; the file is unmounted when the job ends.
+ * @param ffmpeg Instance passed to the job
+ * @param file File to mount
+ * @returns Path to pass to FFmpeg, named "input" with the file's extension
+ */
+export async function mountInputFile(ffmpeg: FFmpeg, file: File): Promise<string> {
+    // The original name could contain characters FFmpeg reads as a protocol or option
+    const extension = (file.name.split('.').pop() || '').toLowerCase().replace(/[^a-z0-9]/g, '') || 'mp4';
+    const fileName = `input.${extension}`;
+    const mountPoint = `mount-${nextMountId++}`;
+
+    await ffmpeg.createDir(mountPoint);
+    await ffmpeg.mount(FFFSType.WORKERFS, { blobs: [{ name: fileName, data: file }] }, mountPoint);
+    mountPoints.set(ffmpeg, [...(mountPoints.get(ffmpeg) ?? []), mountPoint]);
+
+    return `${mountPoint}/${fileName}`;
+}
+
+async function unmountInputFiles(ffmpeg: FFmpeg): Promise<void> {
+    for (const mountPoint of mountPoints.get(ffmpeg) ?? []) {
+        await ffmpeg.unmount(mountPoint);
+    }
+    mountPoints.delete(ffmpeg);
+}
+
+async function listEntries(ffmpeg: FFmpeg, path: string) {
+    return (await ffmpeg.listDir(path)).filter(entry => entry.name !== '.' && entry.name !== '..');
+}
+
+async function removeEntry(ffmpeg: FFmpeg, path: string, isDir: boolean): Promise<void> {
+    if (isDir) {
+        for (const entry of await listEntries(ffmpeg, path)) {
+            await removeEntry(ffmpeg, `${path}/${entry.name}`, entry.isDir);
+        }
+        await ffmpeg.deleteDir(path);
+    } else {
+        await ffmpeg.deleteFile(path);
+    }
+}
+
+/**
+ * Run a job on a worker from the pool. Jobs wait in line while all workers are busy.
+ * @param job Receives a loaded FFmpeg instance that no other job uses until it settles.
+ * Files it leaves in the working directory and files it mounts are removed afterwards.
+ * @param options Cancellation signal and log label
+ */
+export async function runFFmpegJob<T>(job: FFmpegJob<T>, options: FFmpegJobOptions = {}): Promise<T> {
+    const { signal, label = 'FFmpeg job' } = options;
+    const worker = await acquireWorker(signal);
+    if (signal?.aborted) {
+        returnWorker(worker);
+        throw getAbortError(signal);
+    }
+
+    let discarded = false;
+    const onAbort = () => {
+        console.log(`${label} cancelled, terminating FFmpeg worker ${worker.id}`);
+        discarded = true;
+        discardWorker(worker);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    console.log(`${label} started on FFmpeg worker ${worker.id}`);
+    let succeeded = false;
+    try {
+        const existingEntries = new Set((await listEntries(worker.ffmpeg, '.')).map(entry => entry.name));
+        const result = await job(worker.ffmpeg);
+
+        // Mounted files are read-only, so unmount them before removing what the job left behind
+        await unmountInputFiles(worker.ffmpeg);
+        for (const entry of await listEntries(worker.ffmpeg, '.')) {
+            if (!existingEntries.has(entry.name)) {
+                await removeEntry(worker.ffmpeg, entry.name, entry.isDir);
+            }
+        }
+        succeeded = true;
+        return result;
+    } catch (error) {
+        if (signal?.aborted) throw getAbortError(signal);
+        throw error;
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        if (!discarded) {
+            if (succeeded) {
+                returnWorker(worker);
+            } else {
+                console.log(`${label} failed, terminating FFmpeg worker ${worker.id}`);
+                discardWorker(worker);
+            }
+        }
+    }
+}
+
+// Cancel waiting jobs and terminate every worker in the pool
+export function releaseFFmpegPool(): void {
+    for (const waiter of waiters.splice(0)) {
+        waiter.reject(new Error('FFmpeg pool released'));
+    }
+    for (const worker of [...workers]) {
+        discardWorker(worker);
+    }
+    console.log('FFmpeg pool released');
+}
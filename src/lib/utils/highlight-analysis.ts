@@ -0,0 +1,427 @@
+import { AudioPeak, DroppedSegment, HighlightAnalysisResult, Keyframe, TranscriptionResult, VideoSegment } from '@/types';
+import type { ChatImage, LLMProvider } from '@/lib/providers/llm-providers';
+import { LLM_PROVIDERS } from '@/lib/providers/llm-registry';
+import { mapWithConcurrency } from '@/lib/utils/async-utils';
+import { selectSegmentsWithinBudget } from '@/lib/utils/segment-selection';
+import { formatAudioHints } from '@/lib/utils/audio-analysis';
+import {
+    HIGHLIGHT_SEGMENT_FIELDS,
+    HIGHLIGHT_SEGMENTS_SCHEMA,
+    HighlightResponseError,
+    parseHighlightResponse,
+    validateHighlightSegments,
+} from '@/lib/utils/highlight-schema';
+
+/**
+ * Server-side highlight selection with a language model.
+ *
+ * The model sees the transcript as timed "[start-end] text" lines so it can cite
+ * real timestamps, and every suggestion is checked against those lines so it maps
+ * to actual speech.
+ *
+ * Short transcripts are analyzed in a single request. Transcripts too long for
+ * the model's context are analyzed map-reduce style: the timed transcript is cut
+ * into overlapping windows, each window yields candidate segments, and a final
+ * ranking pass dedupes the candidates and picks the highlights.
+ *
+ * Malformed responses get one repair request before the analysis fails, and
+ * segments that fail validation are reported back as dropped.
+ */
+
+export type TranscriptSegment = NonNullable<TranscriptionResult['segments']>[number];
+
+export interface HighlightAnalysisRequest {
+    // Plain transcript text, only used when no timed segments are available
+    transcript?: string;
+    transcriptSegments?: TranscriptSegment[];
+    prompt: string;
+    videoDuration: number;
+    // Total length of the selected highlights in seconds
+    maxDuration?: number;
+    // Per-clip length limits in seconds
+    minClipDuration?: number;
+    maxClipDuration?: number;
+    // Loud moments found by audio analysis, passed to the model as hints
+    audioPeaks?: AudioPeak[];
+    // Frames sampled from the video, for vision-capable models
+    keyframes?: Keyframe[];
+}
+
+// Transcripts longer than this (roughly 12k tokens) are analyzed in windows
+const MAX_SINGLE_PASS_CHARS = 48000;
+const WINDOW_DURATION = 20 * 60;
+// Overlap keeps moments that straddle a window edge whole in one of the windows
+const WINDOW_OVERLAP = 60;
+const WINDOW_CONCURRENCY = 3;
+// Candidates overlapping more than this fraction of the shorter one are duplicates
+const DUPLICATE_OVERLAP_RATIO = 0.5;
+
+// Tell the model about the clip length limits, when there are any
+function getClipLengthRule({ minClipDuration, maxClipDuration }: HighlightAnalysisRequest): string {
+    if (minClipDuration && maxClipDuration) return `Each segment should be between ${minClipDuration} and ${maxClipDuration} seconds long.`;
+    if (minClipDuration) return `Each segment should be at least ${minClipDuration} seconds long.`;
+    if (maxClipDuration) return `Each segment should be at most ${maxClipDuration} seconds long.`;
+    return '';
+}
+
+const VISUAL_INSTRUCTIONS = `
+      Frames sampled from the video are attached after the transcript, each labelled with its time in seconds.
+      Judge moments by what is on screen as well as what is said. For silent or music-heavy footage
+      such as sports or gameplay, rely on the frames. Keep segment times within the span the frames cover.
+    `;
+
+// Keyframes in [start, end] as labelled images for the model
+function toChatImages(keyframes: Keyframe[] | undefined, start: number, end: number): ChatImage[] {
+    return (keyframes || [])
+        .filter(keyframe => keyframe.time >= start && keyframe.time <= end)
+        .map(keyframe => ({ label: `Frame at ${keyframe.time}s:`, dataUrl: keyframe.image }));
+}
+
+const SEGMENT_RULES = `
+      Rules:
+      1. Create as many segments as necessary to capture all important moments
+      2. Choose diverse segments from different parts of the video
+      3. Focus on complete thoughts or actions
+      4. Don't include incomplete sentences
+      5. Make sure each segment contains meaningful and coherent content
+    `;
+
+// Format timed segments as "[start-end] text" lines the model can cite times from
+function formatTimedTranscript(segments: TranscriptSegment[]): string {
+    return segments
+        .map(segment => `[${segment.start.toFixed(1)}-${segment.end.toFixed(1)}] ${segment.text.trim()}`)
+        .join('\n');
+}
+
+/**
+ * Ask the model to turn a malformed response into one matching the schema
+ */
+async function repairResponse(
+    provider: LLMProvider,
+    content: string,
+    error: HighlightResponseError,
+    signal?: AbortSignal
+): Promise<unknown[]> {
+    console.warn(`Malformed ${provider.id} response (${error.message}), requesting a repair`);
+
+    const systemMessage = `
+      The response below was supposed to be a JSON object with a "segments" array, but it could not be used:
+      ${error.message}
+
+      Rewrite it as a JSON object with a "segments" array. Each segment has the following properties:
+      ${HIGHLIGHT_SEGMENT_FIELDS}
+      Keep the segments and times from the response. Do not invent new segments.
+      Return ONLY the JSON object.
+    `;
+
+    const repaired = await provider.complete({
+        system: systemMessage,
+        user: content,
+        jsonMode: true,
+        jsonSchema: HIGHLIGHT_SEGMENTS_SCHEMA,
+        temperature: 0,
+        signal,
+    });
+
+    try {
+        return parseHighlightResponse(repaired);
+    } catch (err) {
+        console.error(`Error parsing repaired ${provider.id} response:`, repaired, 'error: ', err);
+        throw new Error(`Failed to parse ${LLM_PROVIDERS[provider.id].label} response: ${error.message}`);
+    }
+}
+
+/**
+ * Request segments from the model and validate them against [minTime, maxTime],
+ * repairing the response once if it is malformed
+ */
+async function requestSegments(
+    provider: LLMProvider,
+    system: string,
+    user: string,
+    images: ChatImage[],
+    minTime: number,
+    maxTime: number,
+    signal?: AbortSignal
+): Promise<HighlightAnalysisResult> {
+    const content = await provider.complete({
+        system,
+        user,
+        images,
+        jsonMode: true,
+        jsonSchema: HIGHLIGHT_SEGMENTS_SCHEMA,
+        temperature: 0.7,
+        signal,
+    });
+
+    let items: unknown[];
+    let repaired = false;
+    try {
+        items = parseHighlightResponse(content);
+    } catch (err) {
+        if (!(err instanceof HighlightResponseError)) throw err;
+        items = await repairResponse(provider, content, err, signal);
+        repaired = true;
+    }
+
+    return { ...validateHighlightSegments(items, minTime, maxTime), repaired };
+}
+
+/**
+ * Analyze the whole transcript in one request
+ */
+async function analyzeSinglePass(provider: LLMProvider, request: HighlightAnalysisRequest, transcript: string): Promise<HighlightAnalysisResult> {
+    const transcriptFormat = request.transcriptSegments?.length
+        ? 'Each line of the transcript is "[start-end] text" with times in seconds. Use these times for the segments.'
+        : '';
+
+    const systemMessage = `
+      You are an expert video editor helping to create highlight reels from longer videos.
+      ${transcriptFormat}
+      ${request.keyframes?.length ? VISUAL_INSTRUCTIONS : ''}
+      Analyze the transcript and find the most engaging segments based on the following criteria: ${request.prompt}
+
+      Return ONLY a JSON object with a "segments" array. Each segment has the following properties:
+      ${HIGHLIGHT_SEGMENT_FIELDS}
+      ${SEGMENT_RULES}
+      ${getClipLengthRule(request)}
+      The full video duration is ${request.videoDuration} seconds.
+      ${formatAudioHints(request.audioPeaks || [])}
+      ${request.maxDuration ? `The final reel is limited to ${request.maxDuration} seconds; suggest somewhat more than that so the best segments can be chosen.` : ''}
+    `;
+
+    return requestSegments(
+        provider,
+        systemMessage,
+        transcript.trim() || '(No speech was transcribed)',
+        toChatImages(request.keyframes, 0, request.videoDuration),
+        0,
+        request.videoDuration
+    );
+}
+
+/**
+ * Split timed transcript segments into overlapping windows of WINDOW_DURATION seconds
+ */
+export function splitIntoWindows(
+    segments: TranscriptSegment[],
+    videoDuration: number
+): { start: number; end: number; segments: TranscriptSegment[] }[] {
+    const windows: { start: number; end: number; segments: TranscriptSegment[] }[] = [];
+    const step = WINDOW_DURATION - WINDOW_OVERLAP;
+
+    for (let windowStart = 0; windowStart < videoDuration; windowStart += step) {
+        const windowEnd = Math.min(videoDuration, windowStart + WINDOW_DURATION);
+        const windowSegments = segments.filter(segment => segment.end > windowStart && segment.start < windowEnd);
+        if (windowSegments.length > 0) {
+            windows.push({ start: windowStart, end: windowEnd, segments: windowSegments });
+        }
+        if (windowEnd >= videoDuration) break;
+    }
+
+    return windows;
+}
+
+/**
+ * Collapse candidates found twice (usually in the overlap of two windows),
+ * keeping the one with the higher confidence
+ */
+function dedupeCandidates(candidates: VideoSegment[]): VideoSegment[] {
+    const byConfidence = [...candidates].sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+    const kept: VideoSegment[] = [];
+
+    for (const candidate of byConfidence) {
+        const isDuplicate = kept.some(existing => {
+            const overlap = Math.min(existing.end, candidate.end) - Math.max(existing.start, candidate.start);
+            const shorter = Math.min(existing.end - existing.start, candidate.end - candidate.start);
+            return overlap > 0 && overlap / shorter > DUPLICATE_OVERLAP_RATIO;
+        });
+        if (!isDuplicate) kept.push(candidate);
+    }
+
+    return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Ask the model to pick the final highlights from the window candidates.
+ * Falls back to confidence-based selection when the ranking response can't be used.
+ */
+async function rankCandidates(
+    provider: LLMProvider,
+    candidates: VideoSegment[],
+    request: HighlightAnalysisRequest
+): Promise<VideoSegment[]> {
+    const budgetRule = request.maxDuration
+        ? `The combined length of the selected segments must not exceed ${request.maxDuration} seconds.`
+        : 'Select every candidate that is a genuine highlight.';
+
+    const systemMessage = `
+      You are an expert video editor assembling a highlight reel from a ${request.videoDuration} second video.
+      Candidate segments were collected from different parts of the video using these criteria: ${request.prompt}
+
+      Choose the best candidates for the final reel. Prefer strong, diverse moments spread across the video
+      and drop weak or repetitive ones. ${budgetRule}
+
+      Return ONLY a JSON object of the form {"selected": [ids]} listing the ids of the chosen candidates.
+    `;
+
+    const candidateList = candidates.map((candidate, id) => ({
+        id,
+        start: Number(candidate.start.toFixed(1)),
+        end: Number(candidate.end.toFixed(1)),
+        title: candidate.title,
+        description: candidate.description,
+        confidence: candidate.confidence,
+    }));
+
+    try {
+        const content = await provider.complete({
+            system: systemMessage,
+            user: JSON.stringify(candidateList),
+            jsonMode: true,
+            temperature: 0.2,
+        });
+        const parsedResult = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+        const selectedIds: unknown[] = Array.isArray(parsedResult.selected) ? parsedResult.selected : [];
+        const selected = candidates.filter((_, id) => selectedIds.includes(id));
+
+        if (selected.length > 0) {
+            // The model doesn't always respect the budget, so enforce it
+            return selectSegmentsWithinBudget(selected, request.maxDuration);
+        }
+        console.warn('Ranking pass selected no candidates, falling back to confidence-based selection');
+    } catch (err) {
+        console.warn('Ranking pass failed, falling back to confidence-based selection:', err);
+    }
+
+    return selectSegmentsWithinBudget(candidates, request.maxDuration);
+}
+
+/**
+ * Match suggestions to the transcript: each one is widened to the whole transcript
+ * segments it touches, and suggestions that contain no speech are dropped unless
+ * the model saw a keyframe inside them.
+ * Suggestions that end up overlapping an earlier one are dropped as duplicates.
+ * @param segments Suggestions from the model
+ * @param transcriptSegments Timed transcript segments
+ * @param keyframeTimes Times of the keyframes sent to the model, which ground silent visual moments
+ * @returns Suggestions whose boundaries are real transcript boundaries, and the dropped ones
+ */
+export function alignToTranscript(
+    segments: VideoSegment[],
+    transcriptSegments: TranscriptSegment[],
+    keyframeTimes: number[] = []
+): { segments: VideoSegment[]; dropped: DroppedSegment[] } {
+    const aligned: VideoSegment[] = [];
+    const dropped: DroppedSegment[] = [];
+
+    for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+        const spoken = transcriptSegments.filter(line => line.end > segment.start && line.start < segment.end);
+        const seen = keyframeTimes.some(time => time >= segment.start && time <= segment.end);
+        if (spoken.length === 0 && !seen) {
+            dropped.push({ start: segment.start, end: segment.end, reason: 'No speech in this range of the transcript' });
+            continue;
+        }
+
+        // Visual moments without speech keep the model's times
+        const start = spoken.length ? Math.min(...spoken.map(line => line.start)) : segment.start;
+        const end = spoken.length ? Math.max(...spoken.map(line => line.end)) : segment.end;
+        const previous = aligned[aligned.length - 1];
+        if (previous && start < previous.end) {
+            dropped.push({ start: segment.start, end: segment.end, reason: 'Overlaps an earlier segment' });
+            continue;
+        }
+
+        aligned.push({ ...segment, start, end });
+    }
+
+    return { segments: aligned, dropped };
+}
+
+/**
+ * Map-reduce analysis for transcripts that don't fit in one request
+ */
+async function analyzeWindowed(
+    provider: LLMProvider,
+    request: HighlightAnalysisRequest,
+    transcriptSegments: TranscriptSegment[]
+): Promise<HighlightAnalysisResult> {
+    const windows = splitIntoWindows(transcriptSegments, request.videoDuration);
+    console.log(`Analyzing transcript in ${windows.length} windows of up to ${WINDOW_DURATION}s`);
+
+    // A failed window cancels the requests still running for the others
+    const windowResults = await mapWithConcurrency(windows, WINDOW_CONCURRENCY, async (window, index, signal) => {
+        const systemMessage = `
+      You are an expert video editor helping to create highlight reels from longer videos.
+      You are given part ${index + 1} of ${windows.length} of a transcript, covering ${window.start.toFixed(0)}s to ${window.end.toFixed(0)}s
+      of a ${request.videoDuration} second video. Each line is "[start-end] text" with times in seconds.
+      Find candidate segments in this part based on the following criteria: ${request.prompt}
+
+      Return ONLY a JSON object with a "segments" array. Each segment has the following properties:
+      ${HIGHLIGHT_SEGMENT_FIELDS}
+      ${SEGMENT_RULES}
+      ${getClipLengthRule(request)}
+      Only use timestamps between ${window.start.toFixed(1)} and ${window.end.toFixed(1)}.
+      ${request.keyframes?.length ? VISUAL_INSTRUCTIONS : ''}
+      ${formatAudioHints((request.audioPeaks || []).filter(peak => peak.time >= window.start && peak.time <= window.end))}
+    `;
+
+        return requestSegments(
+            provider,
+            systemMessage,
+            formatTimedTranscript(window.segments),
+            toChatImages(request.keyframes, window.start, window.end),
+            window.start,
+            window.end,
+            signal
+        );
+    });
+
+    const candidates = dedupeCandidates(windowResults.flatMap(result => result.segments));
+    const dropped = windowResults.flatMap(result => result.dropped);
+    const repaired = windowResults.some(result => result.repaired);
+    console.log(`Found ${candidates.length} candidate segments across ${windows.length} windows`);
+    if (candidates.length === 0) return { segments: [], dropped, repaired };
+
+    return { segments: await rankCandidates(provider, candidates, request), dropped, repaired };
+}
+
+/**
+ * Find highlight segments in a transcript, switching to windowed analysis when
+ * the transcript is too long for a single request
+ * @param provider Model used for the analysis
+ * @param request Transcript, selection criteria and video details
+ */
+export async function analyzeHighlights(provider: LLMProvider, request: HighlightAnalysisRequest): Promise<HighlightAnalysisResult> {
+    const { transcriptSegments } = request;
+
+    if (!transcriptSegments?.length) {
+        // Some transcription servers return text only, and silent footage has no speech at all
+        console.warn(request.keyframes?.length
+            ? 'No timed transcript segments, analyzing keyframes and transcript text'
+            : 'No timed transcript segments, analyzing plain transcript text');
+        return analyzeSinglePass(provider, request, request.transcript || '');
+    }
+
+    const timedTranscript = formatTimedTranscript(transcriptSegments);
+    const result = timedTranscript.length > MAX_SINGLE_PASS_CHARS
+        ? await analyzeWindowed(provider, request, transcriptSegments)
+        : await analyzeSinglePass(provider, request, timedTranscript);
+
+    const aligned = alignToTranscript(
+        result.segments,
+        transcriptSegments,
+        request.keyframes?.map(keyframe => keyframe.time)
+    );
+    // Widening to whole transcript segments lengthens the reel, so the budget is applied again
+    const segments = selectSegmentsWithinBudget(aligned.segments, request.maxDuration);
+    const overBudget = aligned.segments
+        .filter(segment => !segments.includes(segment))
+        .map(segment => ({ start: segment.start, end: segment.end, reason: 'Exceeds the reel duration once aligned to speech' }));
+
+    return {
+        segments,
+        dropped: [...result.dropped, ...aligned.dropped, ...overBudget],
+        repaired: result.repaired,
+    };
+}
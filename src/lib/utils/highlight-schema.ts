@@ -0,0 +1,141 @@
+import { DroppedSegment, VideoSegment } from '@/types';
+import type { JsonSchemaFormat } from '@/lib/providers/llm-providers';
+
+/**
+ * Response schema for the highlights model and validation of what comes back.
+ *
+ * The schema is enforced with structured outputs where the provider supports it,
+ * but every response is still validated since self-hosted models only follow it
+ * from the prompt. Malformed responses raise HighlightResponseError so the caller
+ * can ask the model to repair them; individual bad segments are dropped with a
+ * reason the client can show.
+ */
+
+export const HIGHLIGHT_SEGMENTS_SCHEMA: JsonSchemaFormat = {
+    name: 'highlight_segments',
+    description: 'Highlight segments found in the transcript',
+    schema: {
+        type: 'object',
+        properties: {
+            segments: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        start: { type: 'number', description: 'Start time in seconds' },
+                        end: { type: 'number', description: 'End time in seconds' },
+                        title: { type: 'string', description: 'Short headline for the clip' },
+                        hook: { type: 'string', description: 'Opening line that grabs attention' },
+                        description: { type: 'string', description: 'Why this segment is interesting' },
+                        confidence: { type: 'number', description: 'How strong the highlight is, from 0 to 1' },
+                    },
+                    required: ['start', 'end', 'title', 'hook', 'description', 'confidence'],
+                    additionalProperties: false,
+                },
+            },
+        },
+        required: ['segments'],
+        additionalProperties: false,
+    },
+};
+
+// Field list for prompts, for models that only see the schema as text
+export const HIGHLIGHT_SEGMENT_FIELDS = `
+      - start: timestamp in seconds when segment should start
+      - end: timestamp in seconds when segment should end
+      - title: short headline for the clip (under 8 words)
+      - hook: the opening line or idea that grabs attention
+      - description: brief description of why this segment is interesting
+      - confidence: number from 0 to 1 rating how strong this highlight is
+    `;
+
+// The model response could not be read as a list of segments
+export class HighlightResponseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HighlightResponseError';
+        Object.setPrototypeOf(this, HighlightResponseError.prototype);
+    }
+}
+
+// Accept numbers and numeric strings, which some local models return
+function toNumber(value: unknown): number | null {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function toOptionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Parse a model response into raw segment items
+ * @throws HighlightResponseError when the response is not JSON or has no segment list
+ */
+export function parseHighlightResponse(content: string): unknown[] {
+    let parsedResult: unknown;
+    try {
+        // Models without a JSON mode often wrap their answer in a markdown code fence
+        parsedResult = JSON.parse(content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    } catch (err) {
+        throw new HighlightResponseError(`Response is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // Older prompts asked for a bare array, which some models still return
+    if (Array.isArray(parsedResult)) return parsedResult;
+
+    const segments = (parsedResult as { segments?: unknown } | null)?.segments;
+    if (!Array.isArray(segments)) {
+        throw new HighlightResponseError('Response has no "segments" array');
+    }
+    return segments;
+}
+
+/**
+ * Validate raw segment items, keeping those inside [minTime, maxTime]
+ * @returns The valid segments sorted by start time, and the dropped ones with a reason
+ */
+export function validateHighlightSegments(
+    items: unknown[],
+    minTime: number,
+    maxTime: number
+): { segments: VideoSegment[]; dropped: DroppedSegment[] } {
+    const segments: VideoSegment[] = [];
+    const dropped: DroppedSegment[] = [];
+
+    for (const item of items) {
+        if (typeof item !== 'object' || item === null) {
+            dropped.push({ reason: 'Segment is not an object' });
+            continue;
+        }
+
+        const raw = item as Record<string, unknown>;
+        const start = toNumber(raw.start);
+        const end = toNumber(raw.end);
+
+        if (start === null || end === null) {
+            dropped.push({ start: start ?? undefined, end: end ?? undefined, reason: 'Missing or invalid start/end time' });
+            continue;
+        }
+        if (start >= end) {
+            dropped.push({ start, end, reason: 'Segment ends before it starts' });
+            continue;
+        }
+        if (start < minTime || end > maxTime) {
+            dropped.push({ start, end, reason: `Segment is outside ${minTime.toFixed(1)}s-${maxTime.toFixed(1)}s` });
+            continue;
+        }
+
+        const confidence = toNumber(raw.confidence);
+        segments.push({
+            start,
+            end,
+            title: toOptionalString(raw.title),
+            hook: toOptionalString(raw.hook),
+            description: toOptionalString(raw.description),
+            confidence: confidence === null ? undefined : Math.min(1, Math.max(0, confidence)),
+        });
+    }
+
+    return { segments: segments.sort((a, b) => a.start - b.start), dropped };
+}
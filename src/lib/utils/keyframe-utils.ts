@@ -0,0 +1,54 @@
+import { Keyframe } from '@/types';
+import { extractFrames } from '@/lib/utils/video-utils';
+
+/**
+ * Keyframe sampling for vision-assisted highlight analysis.
+ *
+ * Frames are sampled evenly across the video, scaled down and encoded as data
+ * URLs so they can be sent to a vision-capable model with their timestamps.
+ * Longer videos get more frames, so the gap between frames grows slowly.
+ */
+
+// One frame per KEYFRAME_SPACING seconds, within bounds: each frame costs request size and tokens
+const KEYFRAME_SPACING = 30;
+const MIN_KEYFRAMES = 24;
+const MAX_KEYFRAMES = 60;
+// Sample at most one frame per second for short videos
+const MAX_KEYFRAME_FPS = 1;
+const KEYFRAME_WIDTH = 512;
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Sample keyframes evenly across a video
+ * @param file Video file
+ * @param duration Duration of the video in seconds
+ * @param signal Cancels the sampling
+ * @returns Keyframes with their timestamps, in order
+ */
+export async function sampleKeyframes(file: File, duration: number, signal?: AbortSignal): Promise<Keyframe[]> {
+    if (duration <= 0) return [];
+
+    const frameCount = Math.min(MAX_KEYFRAMES, Math.max(MIN_KEYFRAMES, Math.round(duration / KEYFRAME_SPACING)));
+    const fps = Math.min(MAX_KEYFRAME_FPS, frameCount / duration);
+    const frames = await extractFrames(file, fps, 'jpeg', KEYFRAME_WIDTH, signal);
+
+    const keyframes: Keyframe[] = [];
+    for (let i = 0; i < frames.length && keyframes.length < frameCount; i++) {
+        keyframes.push({
+            // The fps filter emits frame i at i / fps seconds
+            time: Number((i / fps).toFixed(1)),
+            image: await blobToDataUrl(frames[i]),
+        });
+    }
+
+    console.log(`Sampled ${keyframes.length} keyframes at ${fps.toFixed(3)} fps`);
+    return keyframes;
+}
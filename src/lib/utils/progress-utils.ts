@@ -0,0 +1,107 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+
+/**
+ * Progress and remaining time for long renders.
+ *
+ * FFmpeg logs a status line with the output time encoded so far ("time=00:01:02.50")
+ * about twice a second. Compared with the duration the command will produce, that
+ * gives a percentage that moves smoothly through an encode, and the elapsed time
+ * extrapolated over what is left gives an ETA.
+ */
+
+// Estimates before this share of the work or this many seconds are mostly noise
+const MIN_ETA_FRACTION = 0.03;
+const MIN_ETA_ELAPSED_SECONDS = 2;
+// Weight of each new estimate, so speed changes between GOPs don't make the ETA jump around
+const ETA_SMOOTHING = 0.3;
+
+/**
+ * Read the output time from an FFmpeg status line
+ * @returns Seconds encoded so far, or null if the line has no time
+ */
+export function parseFFmpegTime(message: string): number | null {
+    const match = message.match(/time=\s*(-?)(\d+):(\d+):(\d+(?:\.\d+)?)/);
+    if (!match) return null;
+
+    const seconds = parseInt(match[2], 10) * 3600 + parseInt(match[3], 10) * 60 + parseFloat(match[4]);
+    // Streams that start before zero log a negative time at first
+    return match[1] ? 0 : seconds;
+}
+
+/**
+ * Estimate the time left for a task from how much of it is done. The clock starts
+ * when the estimator is created.
+ * @returns Function taking the finished share (0-1) and returning the seconds left,
+ * or undefined while there is too little to go on
+ */
+export function createEtaEstimator(): (fraction: number) => number | undefined {
+    const startedAt = performance.now();
+    let smoothed: number | undefined;
+
+    return fraction => {
+        const elapsed = (performance.now() - startedAt) / 1000;
+        if (fraction >= 1) return 0;
+        if (fraction < MIN_ETA_FRACTION || elapsed < MIN_ETA_ELAPSED_SECONDS) return undefined;
+
+        const estimate = (elapsed * (1 - fraction)) / fraction;
+        smoothed = smoothed === undefined ? estimate : smoothed + (estimate - smoothed) * ETA_SMOOTHING;
+        return Math.max(0, smoothed);
+    };
+}
+
+export interface EncodeProgress {
+    /**
+     * Follow an FFmpeg command while it runs. Earlier commands count as finished work.
+     * @param duration Seconds of output the command produces
+     * @param command Runs the command
+     */
+    track<T>(duration: number, command: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Report progress over one or more FFmpeg commands that together encode
+ * totalDuration seconds of output
+ * @param ffmpeg Instance running the commands
+ * @param totalDuration Sum of the durations passed to track
+ * @param onUpdate Called with the finished share (0-1) and the seconds left, if known
+ */
+export function createEncodeProgress(
+    ffmpeg: FFmpeg,
+    totalDuration: number,
+    onUpdate: (fraction: number, etaSeconds?: number) => void
+): EncodeProgress {
+    const estimateEta = createEtaEstimator();
+    let finished = 0;
+
+    const report = (done: number) => {
+        const fraction = totalDuration > 0 ? Math.min(1, done / totalDuration) : 1;
+        onUpdate(fraction, estimateEta(fraction));
+    };
+
+    return {
+        async track(duration, command) {
+            const handleLog = ({ message }: { message: string }) => {
+                const time = parseFFmpegTime(message);
+                if (time !== null) report(finished + Math.min(time, duration));
+            };
+
+            ffmpeg.on('log', handleLog);
+            try {
+                return await command();
+            } finally {
+                ffmpeg.off('log', handleLog);
+                finished += duration;
+                report(finished);
+            }
+        },
+    };
+}
+
+/**
+ * Short remaining time for the UI, e.g. "about 3 min left"
+ */
+export function formatEta(seconds: number): string {
+    if (seconds < 10) return 'a few seconds left';
+    if (seconds < 60) return `about ${Math.round(seconds / 5) * 5}s left`;
+    return `about ${Math.round(seconds / 60)} min left`;
+}
@@ -0,0 +1,252 @@
+import * as Comlink from 'comlink';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { FaceDetectionResult, VideoSegment } from '@/types';
+import type { FaceDetectionWorkerApi } from '@/lib/workers/face-detection.worker';
+
+/**
+ * Speaker-tracking reframe for vertical and square exports.
+ *
+ * Frames are sampled from each segment with FFmpeg, run through the face detection
+ * worker, and the detected face centers are smoothed into a crop path. The path is
+ * turned into piecewise-linear crop expressions so FFmpeg moves the crop window
+ * over time and keeps the speaker in frame.
+ */
+
+// Width of the frames sampled for detection. Small frames keep detection fast.
+const SAMPLE_FRAME_WIDTH = 320;
+// Upper bound on sampled frames per segment, which also bounds the crop expression size
+const MAX_SAMPLES_PER_SEGMENT = 40;
+const MIN_SAMPLE_FPS = 0.5;
+const MAX_SAMPLE_FPS = 2;
+// Smoothing factor for the exponential filter (0-1, lower = smoother)
+const SMOOTHING_ALPHA = 0.35;
+// Ignore center movements smaller than this fraction of the frame to avoid jitter
+const DEAD_ZONE = 0.03;
+
+export interface CropPathPoint {
+    time: number;
+    // Normalized (0-1) center of the speaker in the source frame
+    centerX: number;
+    centerY: number;
+}
+
+let workerInstance: Worker | null = null;
+let detector: Comlink.Remote<FaceDetectionWorkerApi> | null = null;
+
+function getFaceDetector(): Comlink.Remote<FaceDetectionWorkerApi> {
+    if (!detector) {
+        workerInstance = new Worker(new URL('../workers/face-detection.worker.ts', import.meta.url), { type: 'module' });
+        detector = Comlink.wrap<FaceDetectionWorkerApi>(workerInstance);
+    }
+    return detector;
+}
+
+// Terminate the face detection worker and free the model
+export function releaseFaceDetector(): void {
+    if (workerInstance) {
+        console.log('Releasing face detection worker');
+        workerInstance.terminate();
+    }
+    workerInstance = null;
+    detector = null;
+}
+
+/**
+ * Whether the target platform crops the source enough to benefit from speaker tracking
+ * @param platform Target platform of the segment
+ */
+export function shouldTrackSpeaker(platform?: VideoSegment['targetPlatform']): boolean {
+    return platform === 'tiktok' || platform === 'instagram';
+}
+
+// Decode an image blob into ImageData that can be transferred to the worker
+async function blobToImageData(blob: Blob): Promise<ImageData> {
+    const bitmap = await createImageBitmap(blob);
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+        bitmap.close();
+        throw new Error('Could not create a 2D canvas context for frame decoding');
+    }
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Sample frames of a segment from a file already written to the FFmpeg filesystem
+ * and detect the main face in each one.
+ */
+async function detectSegmentFaces(
+    ffmpegInstance: FFmpeg,
+    inputFileName: string,
+    segment: VideoSegment
+): Promise<{ detections: (FaceDetectionResult | null)[]; frameWidth: number; frameHeight: number; sampleFps: number }> {
+    const duration = segment.end - segment.start;
+    const sampleFps = Math.min(MAX_SAMPLE_FPS, Math.max(MIN_SAMPLE_FPS, MAX_SAMPLES_PER_SEGMENT / duration));
+    const framePrefix = 'track-frame-';
+
+    await ffmpegInstance.exec([
+        '-ss', segment.start.toString(),
+        '-i', inputFileName,
+        '-t', duration.toString(),
+        '-vf', `fps=${sampleFps},scale=${SAMPLE_FRAME_WIDTH}:-2`,
+        '-q:v', '4',
+        `${framePrefix}%03d.jpg`
+    ]);
+
+    const frameFilenames = (await ffmpegInstance.listDir('./'))
+        .filter(file => file.name.startsWith(framePrefix))
+        .map(file => file.name)
+        .sort();
+
+    const faceDetector = getFaceDetector();
+    const detections: (FaceDetectionResult | null)[] = [];
+    let frameWidth = 0;
+    let frameHeight = 0;
+
+    try {
+        for (let i = 0; i < frameFilenames.length; i++) {
+            const data = await ffmpegInstance.readFile(frameFilenames[i]);
+            const imageData = await blobToImageData(new Blob([data], { type: 'image/jpeg' }));
+            frameWidth = imageData.width;
+            frameHeight = imageData.height;
+
+            const faces = await faceDetector.detectFaces(imageData, i / sampleFps);
+            detections.push(faces[0] ?? null);
+        }
+    } finally {
+        for (const filename of frameFilenames) {
+            try {
+                await ffmpegInstance.deleteFile(filename);
+            } catch (e) {
+                console.warn(`Could not clean up frame ${filename}`, e);
+            }
+        }
+    }
+
+    return { detections, frameWidth, frameHeight, sampleFps };
+}
+
+/**
+ * Smooth per-frame detections into a crop path of normalized speaker centers.
+ * Frames without a face hold the previous position (or the frame center if none yet).
+ */
+export function smoothCropPath(
+    detections: (FaceDetectionResult | null)[],
+    frameWidth: number,
+    frameHeight: number,
+    sampleFps: number
+): CropPathPoint[] {
+    if (detections.length === 0 || frameWidth === 0 || frameHeight === 0) return [];
+
+    // Raw normalized centers with gaps filled from neighbouring detections
+    const firstDetection = detections.find(detection => detection !== null);
+    let lastX = firstDetection ? (firstDetection.boundingBox.xMin + firstDetection.boundingBox.width / 2) / frameWidth : 0.5;
+    let lastY = firstDetection ? (firstDetection.boundingBox.yMin + firstDetection.boundingBox.height / 2) / frameHeight : 0.5;
+
+    const raw = detections.map((detection, i) => {
+        if (detection) {
+            lastX = (detection.boundingBox.xMin + detection.boundingBox.width / 2) / frameWidth;
+            lastY = (detection.boundingBox.yMin + detection.boundingBox.height / 2) / frameHeight;
+        }
+        return { time: i / sampleFps, centerX: lastX, centerY: lastY };
+    });
+
+    // Forward-backward exponential smoothing so the path does not lag behind the speaker
+    const smoothPass = (points: CropPathPoint[]) => {
+        const result: CropPathPoint[] = [];
+        for (const point of points) {
+            const previous = result[result.length - 1];
+            result.push(previous ? {
+                time: point.time,
+                centerX: previous.centerX + SMOOTHING_ALPHA * (point.centerX - previous.centerX),
+                centerY: previous.centerY + SMOOTHING_ALPHA * (point.centerY - previous.centerY),
+            } : { ...point });
+        }
+        return result;
+    };
+    const smoothed = smoothPass(smoothPass(raw).reverse()).reverse();
+
+    // Drop points that move less than the dead zone, keeping the final point for the tail
+    const path: CropPathPoint[] = [smoothed[0]];
+    for (let i = 1; i < smoothed.length; i++) {
+        const previous = path[path.length - 1];
+        const isLast = i === smoothed.length - 1;
+        if (
+            isLast ||
+            Math.abs(smoothed[i].centerX - previous.centerX) >= DEAD_ZONE ||
+            Math.abs(smoothed[i].centerY - previous.centerY) >= DEAD_ZONE
+        ) {
+            path.push(smoothed[i]);
+        }
+    }
+
+    return path;
+}
+
+// Build a piecewise-linear FFmpeg expression of `t` through the given values
+function buildPiecewiseExpression(path: CropPathPoint[], key: 'centerX' | 'centerY'): string {
+    const value = (n: number) => n.toFixed(4);
+
+    if (path.length === 1) return value(path[0][key]);
+
+    let expression = value(path[path.length - 1][key]);
+    for (let i = path.length - 2; i >= 0; i--) {
+        const from = path[i];
+        const to = path[i + 1];
+        const span = Math.max(to.time - from.time, 0.001);
+        const segmentExpression = `${value(from[key])}+(${value(to[key] - from[key])})*(t-${value(from.time)})/${value(span)}`;
+        expression = `if(lt(t,${value(to.time)}),${segmentExpression},${expression})`;
+    }
+
+    return expression;
+}
+
+/**
+ * Build a scale + moving crop filter from a crop path. The source is scaled to cover
+ * the target dimensions and the crop window follows the speaker, clamped to the frame.
+ */
+export function buildTrackingCropFilter(
+    path: CropPathPoint[],
+    targetDimensions: { width: number; height: number }
+): string {
+    const { width, height } = targetDimensions;
+    const xCenter = buildPiecewiseExpression(path, 'centerX');
+    const yCenter = buildPiecewiseExpression(path, 'centerY');
+
+    return [
+        `scale=${width}:${height}:force_original_aspect_ratio=increase`,
+        `crop=w=${width}:h=${height}` +
+        `:x='max(0,min(iw-ow,(${xCenter})*iw-ow/2))'` +
+        `:y='max(0,min(ih-oh,(${yCenter})*ih-oh/2))'`
+    ].join(',');
+}
+
+/**
+ * Compute the speaker-tracking filter for a segment of a file already written to the
+ * FFmpeg filesystem. Returns null when no face is found so callers can fall back to
+ * a center crop.
+ */
+export async function computeSpeakerTrackingFilter(
+    ffmpegInstance: FFmpeg,
+    inputFileName: string,
+    segment: VideoSegment,
+    targetDimensions: { width: number; height: number }
+): Promise<string | null> {
+    try {
+        console.log(`Tracking speaker for segment ${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s`);
+        const { detections, frameWidth, frameHeight, sampleFps } = await detectSegmentFaces(ffmpegInstance, inputFileName, segment);
+
+        const faceCount = detections.filter(detection => detection !== null).length;
+        console.log(`Detected a face in ${faceCount}/${detections.length} sampled frames`);
+        if (faceCount === 0) return null;
+
+        const path = smoothCropPath(detections, frameWidth, frameHeight, sampleFps);
+        console.log(`Speaker crop path has ${path.length} keyframes`);
+        return buildTrackingCropFilter(path, targetDimensions);
+    } catch (error) {
+        console.warn('Speaker tracking failed, falling back to center crop:', error);
+        return null;
+    }
+}
@@ -0,0 +1,73 @@
+import { Shot, TranscriptionWord, VideoSegment } from '@/types';
+
+// Scene score above which a frame is treated as a camera change
+export const DEFAULT_SCENE_THRESHOLD = 0.3;
+// Shot changes closer than this to a segment edge pull the edge onto the cut
+export const DEFAULT_SHOT_SNAP_TOLERANCE = 0.5;
+// Ignore shots shorter than this, usually flashes or fast pans scored as cuts
+const MIN_SHOT_DURATION = 0.5;
+
+/**
+ * Turn scene change times into a list of consecutive shots covering the video
+ * @param boundaries Times in seconds where a new shot starts
+ * @param duration Duration of the video in seconds
+ */
+export function buildShotList(boundaries: number[], duration: number): Shot[] {
+    const starts = [0];
+    for (const boundary of [...boundaries].sort((a, b) => a - b)) {
+        if (boundary - starts[starts.length - 1] >= MIN_SHOT_DURATION && duration - boundary >= MIN_SHOT_DURATION) {
+            starts.push(boundary);
+        }
+    }
+
+    return starts.map((start, i) => ({
+        start,
+        end: i < starts.length - 1 ? starts[i + 1] : duration,
+    }));
+}
+
+// Times where one shot ends and the next begins
+export function getShotBoundaries(shots: Shot[]): number[] {
+    return shots.slice(1).map(shot => shot.start);
+}
+
+function findNearestBoundary(boundaries: number[], time: number, tolerance: number): number | null {
+    let nearest: number | null = null;
+    for (const boundary of boundaries) {
+        if (Math.abs(boundary - time) <= tolerance && (nearest === null || Math.abs(boundary - time) < Math.abs(nearest - time))) {
+            nearest = boundary;
+        }
+    }
+    return nearest;
+}
+
+/**
+ * Move segment edges that fall just before or after a camera change onto the
+ * change, so clips don't open or close on a stray frame of another shot
+ * @param segments Segments to snap
+ * @param shots Shot list of the video
+ * @param tolerance Largest distance in seconds an edge is moved
+ * @param words Word timestamps; camera changes in the middle of a word are skipped
+ * so an edge already snapped to a gap between words never ends up cutting one
+ * @returns New segments with snapped start and end times
+ */
+export function snapSegmentsToShots(
+    segments: VideoSegment[],
+    shots: Shot[],
+    tolerance: number = DEFAULT_SHOT_SNAP_TOLERANCE,
+    words: TranscriptionWord[] = []
+): VideoSegment[] {
+    const boundaries = getShotBoundaries(shots)
+        .filter(boundary => !words.some(word => word.start < boundary && boundary < word.end));
+    if (boundaries.length === 0) return segments;
+
+    return segments.map(segment => {
+        const start = findNearestBoundary(boundaries, segment.start, tolerance) ?? segment.start;
+        const end = findNearestBoundary(boundaries, segment.end, tolerance) ?? segment.end;
+
+        // Keep the original edges if snapping would collapse the segment
+        if (end - start < 1) return segment;
+
+        return { ...segment, start, end };
+    });
+}
@@ -0,0 +1,137 @@
+import { TranscriptionWord, VideoSegment } from '@/types';
+
+/**
+ * Picks the set of highlight segments that fits a total duration budget.
+ *
+ * This is a 0/1 knapsack: each segment's confidence is its value and its length
+ * its cost, so the selection maximizes total confidence without exceeding the
+ * budget. Lengths are measured in steps of DURATION_RESOLUTION seconds to keep
+ * the table small.
+ */
+
+// Value used for segments the model gave no confidence for
+const DEFAULT_CONFIDENCE = 0.5;
+const DURATION_RESOLUTION = 0.5;
+
+export interface SelectionConstraints {
+    // Total length of the selected segments in seconds
+    maxDuration?: number;
+    // Per-clip length limits in seconds
+    minClipDuration?: number;
+    maxClipDuration?: number;
+}
+
+/**
+ * Shorten a segment to maxClipDuration, ending after the last whole word that fits
+ * when word timestamps are available
+ */
+function trimToMaxLength(segment: VideoSegment, maxClipDuration: number, words?: TranscriptionWord[]): VideoSegment {
+    const latestEnd = segment.start + maxClipDuration;
+
+    let end = latestEnd;
+    if (words) {
+        const lastWord = words
+            .filter(word => word.start >= segment.start && word.end <= latestEnd)
+            .reduce<TranscriptionWord | null>((last, word) => (!last || word.end > last.end ? word : last), null);
+        if (lastWord) end = lastWord.end;
+    }
+
+    return { ...segment, end };
+}
+
+/**
+ * Apply per-clip length limits: long clips are trimmed, short clips are removed
+ * @param segments Candidate segments
+ * @param constraints Clip length limits
+ * @param words Word timestamps used to trim at a word boundary
+ */
+export function applyClipLengthLimits(
+    segments: VideoSegment[],
+    constraints: SelectionConstraints,
+    words?: TranscriptionWord[]
+): VideoSegment[] {
+    const { minClipDuration, maxClipDuration } = constraints;
+
+    return segments
+        .map(segment => maxClipDuration && segment.end - segment.start > maxClipDuration
+            ? trimToMaxLength(segment, maxClipDuration, words)
+            : segment)
+        .filter(segment => !minClipDuration || segment.end - segment.start >= minClipDuration);
+}
+
+/**
+ * Select the segments with the highest total confidence whose combined length
+ * stays within the budget
+ * @param segments Candidate segments
+ * @param maxDuration Budget in seconds; all segments are kept when it is not set
+ * @returns The selected segments sorted by start time
+ */
+export function selectSegmentsWithinBudget(segments: VideoSegment[], maxDuration?: number): VideoSegment[] {
+    if (!maxDuration || getTotalDuration(segments) <= maxDuration) return segments;
+
+    const capacity = Math.floor(maxDuration / DURATION_RESOLUTION);
+    // Round costs up so the selection can never exceed the budget
+    const costs = segments.map(segment => Math.ceil((segment.end - segment.start) / DURATION_RESOLUTION));
+    const values = segments.map(segment => segment.confidence ?? DEFAULT_CONFIDENCE);
+
+    // best[c] is the highest value reachable with cost c; taken[i][c] records the choices
+    const best = new Float64Array(capacity + 1);
+    const taken = segments.map(() => new Uint8Array(capacity + 1));
+
+    for (let i = 0; i < segments.length; i++) {
+        for (let c = capacity; c >= costs[i]; c--) {
+            const withSegment = best[c - costs[i]] + values[i];
+            if (withSegment > best[c]) {
+                best[c] = withSegment;
+                taken[i][c] = 1;
+            }
+        }
+    }
+
+    // Walk the choices back from the full capacity
+    const selected: VideoSegment[] = [];
+    let c = capacity;
+    for (let i = segments.length - 1; i >= 0; i--) {
+        if (taken[i][c]) {
+            selected.push(segments[i]);
+            c -= costs[i];
+        }
+    }
+
+    return selected.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Combined length of a list of segments in seconds
+ */
+export function getTotalDuration(segments: VideoSegment[]): number {
+    return segments.reduce((total, segment) => total + Math.max(0, segment.end - segment.start), 0);
+}
+
+function overlaps(a: VideoSegment, b: VideoSegment): boolean {
+    return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Merge a new set of suggestions into the segments being reviewed. Segments the
+ * user edited are always kept; a new suggestion replaces any unedited segment it
+ * overlaps and is skipped when it overlaps an edited one.
+ * @param current Segments on the review screen
+ * @param incoming Suggestions from a new analysis
+ * @param maxDuration Budget in seconds for the merged reel; edited segments count against it first
+ * @returns The merged segments sorted by start time
+ */
+export function mergeSegmentSuggestions(current: VideoSegment[], incoming: VideoSegment[], maxDuration?: number): VideoSegment[] {
+    const edited = current.filter(segment => segment.edited);
+    const added = incoming.filter(segment => !edited.some(kept => overlaps(kept, segment)));
+    const remaining = current.filter(segment => !segment.edited && !added.some(other => overlaps(other, segment)));
+
+    // Unedited segments share whatever budget the edited ones leave
+    let unedited = [...remaining, ...added];
+    if (maxDuration) {
+        const budgetLeft = maxDuration - getTotalDuration(edited);
+        unedited = budgetLeft > 0 ? selectSegmentsWithinBudget(unedited, budgetLeft) : [];
+    }
+
+    return [...edited, ...unedited].sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,444 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { ALL_FORMATS, BlobSource, EncodedPacketSink, Input } from 'mediabunny';
+import { VideoSegment } from '@/types';
+import { createEncodeProgress } from '@/lib/utils/progress-utils';
+
+/**
+ * Keyframe-aware "smart cut" for clips that keep the source frames as they are.
+ *
+ * A segment rarely starts and ends on keyframes, so it is split into three parts:
+ * the partial GOP before the first keyframe inside the segment, the run of whole
+ * GOPs in the middle, and the partial GOP after the last keyframe. Only the two
+ * edge parts are re-encoded, with the source's codec parameters, and the middle
+ * is stream-copied. Parts are written as MPEG-TS so each one carries its own
+ * parameter sets, then joined with the concat demuxer and remuxed to MP4 as avc3,
+ * which keeps the parameter sets in-band: x264's SPS/PPS differ from the source's,
+ * and avc1 would give decoders only the first part's.
+ *
+ * A copied run must start on an IDR frame without leading frames. In an open GOP
+ * the frames shown before the keyframe reference the GOP the cut removes, so such
+ * sources are re-encoded. The joined file is decoded once before it is used.
+ *
+ * Sources the edges can't be matched to (anything but 8-bit H.264 with AAC or no
+ * audio) and clips that need filters (reframing, captions) use the full re-encode.
+ */
+
+// The edges sit next to untouched source frames, so encode them close to source quality
+const EDGE_CRF = '18';
+// Edges shorter than this are dropped rather than encoded as a single frame
+const MIN_EDGE_DURATION = 0.02;
+// Added to keyframe times when seeking so a rounded-down time can't land on the previous keyframe
+const KEYFRAME_SEEK_EPSILON = 0.001;
+// Prefix of every file the smart cut writes
+const SMART_CUT_FILE_PREFIX = 'smartcut-';
+
+const H264_PROFILES: Record<string, string> = {
+    'Constrained Baseline': 'baseline',
+    'Baseline': 'baseline',
+    'Main': 'main',
+    'High': 'high',
+};
+
+const CHANNEL_COUNTS: Record<string, number> = {
+    'mono': 1,
+    'stereo': 2,
+    '5.1': 6,
+    '5.1(side)': 6,
+};
+
+export interface SourceStreamInfo {
+    // Timestamp of the first packet; keyframe times from showinfo are offset by it
+    startTime: number;
+    video?: {
+        codec: string;
+        profile?: string;
+        pixelFormat: string;
+        width: number;
+        height: number;
+        rotated: boolean;
+    };
+    audio?: {
+        codec: string;
+        sampleRate: number;
+        channelLayout: string;
+    };
+}
+
+export interface SmartCutPart {
+    start: number;
+    end: number;
+    mode: 'copy' | 'encode';
+}
+
+// Read the stream summary FFmpeg prints for its first input
+function parseStreamInfo(lines: string[]): SourceStreamInfo {
+    const info: SourceStreamInfo = { startTime: 0 };
+
+    for (const line of lines) {
+        const start = line.match(/Duration: .*?, start: (-?[\d.]+)/);
+        if (start) {
+            info.startTime = parseFloat(start[1]);
+        }
+
+        // e.g. "Video: h264 (High) (avc1 / 0x31637661), yuv420p(tv, bt709, progressive), 1920x1080 [SAR 1:1 DAR 16:9], ..."
+        const video = line.match(/Stream #0:\d+.*?: Video: (\w+)(?: \(([^)]+)\))?[^,]*, (\w+)(?:\([^)]*\))?, (\d+)x(\d+)/);
+        if (video && !info.video) {
+            info.video = {
+                codec: video[1],
+                profile: video[2],
+                pixelFormat: video[3],
+                width: parseInt(video[4], 10),
+                height: parseInt(video[5], 10),
+                rotated: false,
+            };
+        }
+
+        // e.g. "Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, stereo, fltp, 128 kb/s"
+        const audio = line.match(/Stream #0:\d+.*?: Audio: (\w+)[^,]*, (\d+) Hz, ([^,]+)/);
+        if (audio && !info.audio) {
+            info.audio = {
+                codec: audio[1],
+                sampleRate: parseInt(audio[2], 10),
+                channelLayout: audio[3].trim(),
+            };
+        }
+
+        // Phone recordings store their orientation as a display matrix instead of rotating the frames
+        if (info.video && /rotation of|rotate\s*:/.test(line)) {
+            info.video.rotated = true;
+        }
+    }
+
+    return info;
+}
+
+/**
+ * Read codec parameters of a file already written to the FFmpeg filesystem
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Video file in the FFmpeg filesystem
+ */
+export async function probeSourceStreams(ffmpeg: FFmpeg, inputFileName: string): Promise<SourceStreamInfo> {
+    const lines: string[] = [];
+    const handleLog = ({ message }: { message: string }) => lines.push(message);
+
+    ffmpeg.on('log', handleLog);
+    try {
+        // Fails for lack of an output file, but only after printing the input summary
+        await ffmpeg.exec(['-hide_banner', '-i', inputFileName]);
+    } finally {
+        ffmpeg.off('log', handleLog);
+    }
+
+    return parseStreamInfo(lines);
+}
+
+/**
+ * Why the source can't be smart cut to the target, or null when it can
+ * @param info Stream parameters from probeSourceStreams
+ * @param targetDimensions Output dimensions; anything but the source size needs a filter
+ */
+export function getSmartCutBlocker(
+    info: SourceStreamInfo,
+    targetDimensions?: { width: number; height: number }
+): string | null {
+    const { video, audio } = info;
+    if (!video) return 'no video stream found';
+    if (video.codec !== 'h264') return `video codec is ${video.codec}, edges can only be encoded as h264`;
+    if (!video.profile || !H264_PROFILES[video.profile]) return `H.264 profile ${video.profile || 'unknown'} is not supported`;
+    if (video.pixelFormat !== 'yuv420p') return `pixel format is ${video.pixelFormat}`;
+    if (video.rotated) return 'video is rotated by metadata';
+    if (targetDimensions && (targetDimensions.width !== video.width || targetDimensions.height !== video.height)) {
+        return `output is resized from ${video.width}x${video.height} to ${targetDimensions.width}x${targetDimensions.height}`;
+    }
+    if (audio && audio.codec !== 'aac') return `audio codec is ${audio.codec}, edges can only be encoded as aac`;
+    if (audio && !CHANNEL_COUNTS[audio.channelLayout]) return `audio channel layout ${audio.channelLayout} is not supported`;
+    return null;
+}
+
+/**
+ * Find the keyframes inside a time range. Only keyframes are decoded, so this is
+ * much faster than decoding the range.
+ * @returns Keyframe times in seconds from the start of the file
+ */
+export async function findKeyframes(
+    ffmpeg: FFmpeg,
+    inputFileName: string,
+    start: number,
+    end: number,
+    info: SourceStreamInfo
+): Promise<number[]> {
+    const keyframes: number[] = [];
+    const handleLog = ({ message }: { message: string }) => {
+        if (!message.includes('showinfo')) return;
+        const match = message.match(/pts_time:\s*(-?[\d.]+)/);
+        if (match) keyframes.push(parseFloat(match[1]) - info.startTime);
+    };
+
+    ffmpeg.on('log', handleLog);
+    let exitCode: number;
+    try {
+        // -copyts keeps source timestamps so pts_time can be compared with the segment
+        exitCode = await ffmpeg.exec([
+            '-skip_frame', 'nokey',
+            '-ss', start.toString(),
+            '-t', (end - start).toString(),
+            '-copyts',
+            '-i', inputFileName,
+            '-an',
+            '-vf', 'showinfo',
+            '-f', 'null',
+            '-'
+        ]);
+    } finally {
+        ffmpeg.off('log', handleLog);
+    }
+    if (exitCode !== 0) {
+        throw new Error(`Keyframe scan failed with exit code ${exitCode}`);
+    }
+
+    return keyframes.filter(time => time >= start && time <= end).sort((a, b) => a - b);
+}
+
+/**
+ * Split a segment into re-encoded edges and a stream-copied middle
+ * @param segment Segment to cut
+ * @param keyframes Keyframe times inside the segment, sorted
+ * @returns The parts in order, or null when the segment doesn't contain a whole GOP
+ */
+export function planSmartCut(segment: VideoSegment, keyframes: number[]): SmartCutPart[] | null {
+    const firstKeyframe = keyframes.find(time => time >= segment.start);
+    const lastKeyframe = [...keyframes].reverse().find(time => time <= segment.end);
+    if (firstKeyframe === undefined || lastKeyframe === undefined || lastKeyframe <= firstKeyframe) {
+        return null;
+    }
+
+    const parts: SmartCutPart[] = [];
+    if (firstKeyframe - segment.start >= MIN_EDGE_DURATION) {
+        parts.push({ start: segment.start, end: firstKeyframe, mode: 'encode' });
+    }
+    parts.push({ start: firstKeyframe, end: lastKeyframe, mode: 'copy' });
+    if (segment.end - lastKeyframe >= MIN_EDGE_DURATION) {
+        parts.push({ start: lastKeyframe, end: segment.end, mode: 'encode' });
+    }
+    return parts;
+}
+
+// Whether an H.264 access unit, length-prefixed per the avcC description or in Annex B, starts an IDR frame
+function isIdrPacket(data: Uint8Array, description?: AllowSharedBufferSource): boolean {
+    const nalTypes: number[] = [];
+    if (description) {
+        const avcC = ArrayBuffer.isView(description)
+            ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+            : new Uint8Array(description);
+        const lengthSize = (avcC[4] & 0x03) + 1;
+        for (let offset = 0; offset + lengthSize < data.length;) {
+            let length = 0;
+            for (let i = 0; i < lengthSize; i++) length = length * 256 + data[offset + i];
+            nalTypes.push(data[offset + lengthSize] & 0x1f);
+            offset += lengthSize + length;
+        }
+    } else {
+        for (let i = 0; i + 3 < data.length; i++) {
+            if (data[i] === 0 && data[i + 1] === 0 && data[i + 2] === 1) nalTypes.push(data[i + 3] & 0x1f);
+        }
+    }
+
+    // Types 1-5 are slices; 5 is an IDR slice
+    const firstSlice = nalTypes.find(type => type >= 1 && type <= 5);
+    return firstSlice === 5;
+}
+
+/**
+ * Why copied parts can't start at these keyframes, or null when they can. Each one
+ * must be an IDR frame, and no frame may follow it in decode order but be shown
+ * before it; both fail for open GOPs.
+ * @param file Source video
+ * @param keyframeTimes Start times of the copied parts, from findKeyframes
+ */
+export async function getOpenGopBlocker(file: Blob, keyframeTimes: number[]): Promise<string | null> {
+    const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+    try {
+        const track = await input.getPrimaryVideoTrack();
+        if (!track) return 'no video track found';
+        const decoderConfig = await track.getDecoderConfig();
+        // findKeyframes times are relative to the start of the file, like FFmpeg's
+        const startTime = await input.getFirstTimestamp();
+        const packets = new EncodedPacketSink(track);
+
+        for (const time of keyframeTimes) {
+            const keyPacket = await packets.getKeyPacket(startTime + time + KEYFRAME_SEEK_EPSILON);
+            if (!keyPacket) return `no keyframe found at ${time.toFixed(2)}s`;
+            if (!isIdrPacket(keyPacket.data, decoderConfig?.description)) {
+                return `keyframe at ${time.toFixed(2)}s is not an IDR frame (open GOP)`;
+            }
+            // Leading frames come right after the keyframe in decode order
+            const nextPacket = await packets.getNextPacket(keyPacket);
+            if (nextPacket && nextPacket.timestamp < keyPacket.timestamp) {
+                return `keyframe at ${time.toFixed(2)}s has leading B-frames (open GOP)`;
+            }
+        }
+        return null;
+    } finally {
+        input.dispose();
+    }
+}
+
+// Encoder settings that make re-encoded edges joinable with copied source packets
+function getEdgeEncodeArgs(info: SourceStreamInfo): string[] {
+    const { video, audio } = info;
+    const args = [
+        '-c:v', 'libx264',
+        '-profile:v', H264_PROFILES[video!.profile!],
+        '-pix_fmt', 'yuv420p',
+        '-crf', EDGE_CRF,
+        '-preset', 'medium',
+    ];
+    if (audio) {
+        args.push('-c:a', 'aac', '-ar', audio.sampleRate.toString(), '-ac', CHANNEL_COUNTS[audio.channelLayout].toString());
+    }
+    return args;
+}
+
+async function writePart(
+    ffmpeg: FFmpeg,
+    inputFileName: string,
+    part: SmartCutPart,
+    info: SourceStreamInfo,
+    partFileName: string
+): Promise<void> {
+    const command = part.mode === 'copy'
+        ? [
+            '-ss', (part.start + KEYFRAME_SEEK_EPSILON).toString(),
+            '-i', inputFileName,
+            '-t', (part.end - part.start).toString(),
+            '-c', 'copy',
+            // Repeat the source's parameter sets before every keyframe
+            '-bsf:v', 'dump_extra',
+            '-avoid_negative_ts', 'make_zero',
+        ]
+        : [
+            '-ss', part.start.toString(),
+            '-i', inputFileName,
+            '-t', (part.end - part.start).toString(),
+            ...getEdgeEncodeArgs(info),
+        ];
+
+    const exitCode = await ffmpeg.exec([...command, '-f', 'mpegts', partFileName]);
+    if (exitCode !== 0) {
+        throw new Error(`Failed to ${part.mode} ${part.start.toFixed(2)}s - ${part.end.toFixed(2)}s (exit code ${exitCode})`);
+    }
+}
+
+// Decode a file to the end and fail on any decoder error, so a broken join falls back to re-encoding
+async function verifyDecodes(ffmpeg: FFmpeg, fileName: string): Promise<void> {
+    const errors: string[] = [];
+    const handleLog = ({ message }: { message: string }) => {
+        if (/error|corrupt|concealing|non-existing|missing/i.test(message)) errors.push(message);
+    };
+
+    ffmpeg.on('log', handleLog);
+    let exitCode: number;
+    try {
+        exitCode = await ffmpeg.exec(['-v', 'error', '-xerror', '-err_detect', 'explode', '-i', fileName, '-f', 'null', '-']);
+    } finally {
+        ffmpeg.off('log', handleLog);
+    }
+    if (exitCode !== 0 || errors.length > 0) {
+        throw new Error(`Smart cut output does not decode cleanly: ${errors[0] ?? `exit code ${exitCode}`}`);
+    }
+}
+
+// Remove everything smartCutSegments wrote, so a fallback re-encode starts from a clean filesystem
+async function removeSmartCutFiles(ffmpeg: FFmpeg): Promise<void> {
+    for (const file of await ffmpeg.listDir('./')) {
+        if (!file.isDir && file.name.startsWith(SMART_CUT_FILE_PREFIX)) {
+            await ffmpeg.deleteFile(file.name);
+        }
+    }
+}
+
+/**
+ * Cut segments from the source and join them into an MP4 without re-encoding
+ * whole GOPs
+ * @param ffmpeg Loaded FFmpeg instance
+ * @param inputFileName Source video in the FFmpeg filesystem
+ * @param file The same source video, read directly to check its GOP structure
+ * @param segments Segments to include, in order
+ * @param info Stream parameters that passed getSmartCutBlocker
+ * @param onProgress Called with progress from 0 to 1 as parts are written
+ * @returns The MP4 data, or null when a segment has no whole GOP to copy or the source
+ * uses open GOPs, and the caller should re-encode instead
+ */
+export async function smartCutSegments(
+    ffmpeg: FFmpeg,
+    inputFileName: string,
+    file: Blob,
+    segments: VideoSegment[],
+    info: SourceStreamInfo,
+    onProgress?: (progress: number, detail: string, etaSeconds?: number) => void
+): Promise<Uint8Array | null> {
+    const plans: SmartCutPart[][] = [];
+    for (const segment of segments) {
+        const keyframes = await findKeyframes(ffmpeg, inputFileName, segment.start, segment.end, info);
+        const plan = planSmartCut(segment, keyframes);
+        if (!plan) {
+            console.log(`Segment ${segment.start.toFixed(2)}s - ${segment.end.toFixed(2)}s is shorter than a GOP, smart cut skipped`);
+            return null;
+        }
+        plans.push(plan);
+    }
+
+    const parts = plans.flat();
+    const gopBlocker = await getOpenGopBlocker(file, parts.filter(part => part.mode === 'copy').map(part => part.start));
+    if (gopBlocker) {
+        console.log(`Smart cut not possible (${gopBlocker}), re-encoding segments`);
+        return null;
+    }
+
+    const copied = parts.filter(part => part.mode === 'copy').reduce((sum, part) => sum + part.end - part.start, 0);
+    const total = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    console.log(`Smart cut: stream-copying ${copied.toFixed(1)}s of ${total.toFixed(1)}s, re-encoding ${parts.filter(part => part.mode === 'encode').length} edge(s)`);
+
+    const listFileName = `${SMART_CUT_FILE_PREFIX}parts.txt`;
+    const outputFileName = `${SMART_CUT_FILE_PREFIX}output.mp4`;
+    // Progress follows the output time written, so copied parts move it along much faster than encoded edges
+    let detail = '';
+    const encodeProgress = createEncodeProgress(ffmpeg, total, (fraction, etaSeconds) => onProgress?.(fraction, detail, etaSeconds));
+    try {
+        const partFiles: string[] = [];
+        for (let i = 0; i < parts.length; i++) {
+            const part = parts[i];
+            detail = `${part.mode === 'copy' ? 'Copying' : 'Encoding'} ${part.start.toFixed(1)}s - ${part.end.toFixed(1)}s (${i + 1}/${parts.length})`;
+
+            const partFileName = `${SMART_CUT_FILE_PREFIX}part-${i}.ts`;
+            await encodeProgress.track(part.end - part.start, () => writePart(ffmpeg, inputFileName, part, info, partFileName));
+            partFiles.push(partFileName);
+        }
+
+        onProgress?.(1, 'Joining parts');
+        await ffmpeg.writeFile(listFileName, new TextEncoder().encode(partFiles.map(file => `file ${file}`).join('\n')));
+        const exitCode = await ffmpeg.exec([
+            '-f', 'concat',
+            '-safe', '0',
+            '-i', listFileName,
+            '-c', 'copy',
+            '-tag:v', 'avc3',
+            '-movflags', '+faststart',
+            outputFileName
+        ]);
+        if (exitCode !== 0) {
+            throw new Error(`Failed to join smart cut parts (exit code ${exitCode})`);
+        }
+
+        onProgress?.(1, 'Checking the joined video');
+        await verifyDecodes(ffmpeg, outputFileName);
+
+        const data = await ffmpeg.readFile(outputFileName);
+        if (!(data instanceof Uint8Array)) {
+            throw new Error('Failed to read smart cut output');
+        }
+        return data;
+    } finally {
+        await removeSmartCutFiles(ffmpeg);
+    }
+}
@@ -0,0 +1,147 @@
+import { TranscriptionResult, TranscriptionWord, VideoSegment } from '@/types';
+
+// Default seconds kept before the first and after the last word of a segment
+export const DEFAULT_BOUNDARY_PADDING = 0.15;
+
+/**
+ * Find the index of the word whose edge is closest to a time
+ * @param words Words sorted by start time
+ * @param time Time in seconds
+ * @param edge Which edge of the word to compare against
+ */
+function findNearestWordIndex(words: TranscriptionWord[], time: number, edge: 'start' | 'end'): number {
+    let nearestIndex = 0;
+    let nearestDistance = Infinity;
+
+    for (let i = 0; i < words.length; i++) {
+        const distance = Math.abs(words[i][edge] - time);
+        if (distance < nearestDistance) {
+            nearestDistance = distance;
+            nearestIndex = i;
+        }
+    }
+
+    return nearestIndex;
+}
+
+/**
+ * Move segment boundaries to the nearest gap between words so clips never start or
+ * end mid-word. Padding is added around the words but never reaches into the
+ * neighbouring word.
+ * @param segments Segments to snap
+ * @param words Word-level timestamps from the transcription
+ * @param videoDuration Duration of the source video in seconds
+ * @param padding Seconds to keep before the first and after the last word
+ * @returns New segments with snapped start and end times
+ */
+export function snapSegmentsToWordBoundaries(
+    segments: VideoSegment[],
+    words: TranscriptionWord[] | undefined,
+    videoDuration: number,
+    padding: number = DEFAULT_BOUNDARY_PADDING
+): VideoSegment[] {
+    if (!words || words.length === 0) return segments;
+
+    const sortedWords = [...words].sort((a, b) => a.start - b.start);
+
+    return segments.map(segment => {
+        const startIndex = findNearestWordIndex(sortedWords, segment.start, 'start');
+        const endIndex = findNearestWordIndex(sortedWords, segment.end, 'end');
+
+        // A segment must contain at least one whole word
+        if (endIndex < startIndex) return segment;
+
+        const firstWord = sortedWords[startIndex];
+        const lastWord = sortedWords[endIndex];
+        const previousWordEnd = startIndex > 0 ? sortedWords[startIndex - 1].end : 0;
+        const nextWordStart = endIndex < sortedWords.length - 1 ? sortedWords[endIndex + 1].start : videoDuration;
+
+        // Clamp to the word itself in case neighbouring word timestamps overlap
+        const start = Math.min(firstWord.start, Math.max(0, previousWordEnd, firstWord.start - padding));
+        const end = Math.max(lastWord.end, Math.min(videoDuration, nextWordStart, lastWord.end + padding));
+
+        if (end <= start) return segment;
+
+        return { ...segment, start, end };
+    });
+}
+
+/**
+ * Join the transcriptions of consecutive audio chunks into one result, shifting
+ * segment and word timestamps by the chunk's position in the source audio.
+ * @param chunks Transcription of each chunk with the chunk start time, in order
+ * @returns A single transcription covering the whole audio
+ */
+export function stitchTranscriptionResults(
+    chunks: { result: TranscriptionResult; offset: number }[]
+): TranscriptionResult {
+    if (chunks.length === 1 && chunks[0].offset === 0) return chunks[0].result;
+
+    const segments: NonNullable<TranscriptionResult['segments']> = [];
+    const words: TranscriptionWord[] = [];
+    let hasSegments = false;
+    let hasWords = false;
+
+    for (const { result, offset } of chunks) {
+        if (result.segments) {
+            hasSegments = true;
+            for (const segment of result.segments) {
+                segments.push({
+                    ...segment,
+                    id: segments.length,
+                    start: segment.start + offset,
+                    end: segment.end + offset,
+                });
+            }
+        }
+        if (result.words) {
+            hasWords = true;
+            for (const word of result.words) {
+                words.push({ ...word, start: word.start + offset, end: word.end + offset });
+            }
+        }
+    }
+
+    return {
+        text: chunks.map(({ result }) => result.text.trim()).filter(Boolean).join(' '),
+        segments: hasSegments ? segments : undefined,
+        words: hasWords ? words : undefined,
+    };
+}
+
+// Whisper models that only return word timestamps need them grouped into lines
+const MAX_GROUPED_SEGMENT_DURATION = 15;
+const SEGMENT_BREAK_PAUSE = 1;
+
+/**
+ * Group word timestamps into transcript segments, breaking after sentence-ending
+ * punctuation, at long pauses, or when a segment gets too long
+ * @param words Words in order
+ */
+export function groupWordsIntoSegments(words: TranscriptionWord[]): NonNullable<TranscriptionResult['segments']> {
+    const segments: NonNullable<TranscriptionResult['segments']> = [];
+    let current: TranscriptionWord[] = [];
+
+    const flush = () => {
+        if (current.length === 0) return;
+        segments.push({
+            id: segments.length,
+            start: current[0].start,
+            end: current[current.length - 1].end,
+            text: current.map(word => word.word).join(' '),
+        });
+        current = [];
+    };
+
+    for (const word of words) {
+        const previous = current[current.length - 1];
+        if (previous && (word.start - previous.end > SEGMENT_BREAK_PAUSE || word.end - current[0].start > MAX_GROUPED_SEGMENT_DURATION)) {
+            flush();
+        }
+        current.push(word);
+        if (/[.!?]["')\]]?$/.test(word.word)) flush();
+    }
+    flush();
+
+    return segments;
+}
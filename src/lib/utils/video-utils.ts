@@ -1,7 +1,21 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile } from '@ffmpeg/util';
-import { VideoMetadata, VideoSegment } from '@/types';
-import { FFMPEG_CORE_URL, FFMPEG_WASM_URL } from '@/lib/config';
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { RenderEngine, Shot, VideoMetadata, VideoSegment } from '@/types';
+import { mountInputFile, runFFmpegJob } from '@/lib/utils/ffmpeg-pool';
+import { computeSpeakerTrackingFilter, releaseFaceDetector, shouldTrackSpeaker } from '@/lib/utils/reframe-utils';
+import { CaptionOptions, prepareCaptionFilter } from '@/lib/utils/caption-utils';
+import { buildShotList, DEFAULT_SCENE_THRESHOLD } from '@/lib/utils/scene-utils';
+import { getSmartCutBlocker, probeSourceStreams, smartCutSegments } from '@/lib/utils/smart-cut';
+import { planWebCodecsRender, renderWithWebCodecs } from '@/lib/utils/webcodecs-render';
+import { createEncodeProgress, createEtaEstimator } from '@/lib/utils/progress-utils';
+
+// Render progress; the engine is reported once it has been chosen
+export type RenderProgressCallback = (
+    step: string,
+    progress: number,
+    detail?: string,
+    etaSeconds?: number,
+    engine?: RenderEngine
+) => void;
 
 // Define a global type extension for the window object
 declare global {
@@ -10,126 +24,6 @@ declare global {
     }
 }
 
-// Improved FFmpeg management with proper cleanup
-let ffmpeg: FFmpeg | null = null;
-let isLoading = false;
-let loadingPromise: Promise<FFmpeg> | null = null;
-let usageCount = 0;
-let lastOperationTime = Date.now();
-
-// Force reload FFmpeg if it gets stuck
-const forceReloadThreshold = 2; // Reduced from 3 to 2 to be more aggressive about resource cleanup
-const maxIdleTime = 30000; // 30 seconds (reduced from 60)
-let lastUsageTime = Date.now();
-
-export async function loadFFmpeg(): Promise<FFmpeg> {
-    const currentTime = Date.now();
-
-    // Reset FFmpeg if it hasn't been used for a while or usage count is high
-    if (ffmpeg && (
-        (currentTime - lastUsageTime > maxIdleTime) ||
-        (usageCount >= forceReloadThreshold) ||
-        (currentTime - lastOperationTime > 10000) // Force reload if no operation in 10 seconds
-    )) {
-        console.log(`Forcing FFmpeg reload: idle time=${(currentTime - lastUsageTime) / 1000}s, usage count=${usageCount}, op idle=${(currentTime - lastOperationTime) / 1000}s`);
-        await releaseFFmpeg();
-    }
-
-    // If FFmpeg is already loaded, return it immediately
-    if (ffmpeg) {
-        console.log('Using existing FFmpeg instance');
-        usageCount++;
-        lastUsageTime = currentTime;
-        return ffmpeg;
-    }
-
-    // If loading is in progress, wait for it to complete instead of starting a new load
-    if (isLoading && loadingPromise) {
-        console.log('FFmpeg loading already in progress, waiting...');
-        return loadingPromise;
-    }
-
-    // Start loading process
-    console.log('Creating new FFmpeg instance');
-    isLoading = true;
-    usageCount = 0;
-
-    loadingPromise = (async () => {
-        try {
-            const instance = new FFmpeg();
-
-            // Add a listener to capture log messages from the FFmpeg worker.
-            // This is the correct way to get logs from the FFmpeg wrapper class.
-            // instance.on('log', ({ type, message }: { type: string; message: string }) => {
-            //     console.log(`[FFmpeg internal log - ${type}]:`, message);
-            // });
-
-            console.log('Loading FFmpeg core...');
-
-            // Load FFmpeg with self-hosted URLs from the config file.
-            const coreURL = FFMPEG_CORE_URL;
-            const wasmURL = FFMPEG_WASM_URL;
-
-            // Add detailed logging to verify the URLs being used in production
-            console.log(`Attempting to load FFmpeg with self-hosted URLs:`, {
-                coreURL,
-                wasmURL,
-            });
-
-            // This is crucial for production builds to comply with Cross-Origin-Embedder-Policy (COEP).
-            // By default, FFmpeg tries to load from a CDN, which is blocked by COEP.
-            await instance.load({
-                coreURL: coreURL,
-                wasmURL: wasmURL,
-            });
-
-            console.log('FFmpeg loaded successfully');
-            ffmpeg = instance;
-            lastUsageTime = currentTime;
-            lastOperationTime = Date.now();
-            usageCount = 1;
-            return instance;
-        } catch (error) {
-            // Enhanced error logging to capture the full error object
-            console.error('FFMPEG_LOAD_FAILED: A critical error occurred while loading FFmpeg.', error);
-            // Reset state on error
-            ffmpeg = null;
-            throw new Error(`FFmpeg loading failed: ${error instanceof Error ? error.message : String(error)}`);
-        } finally {
-            isLoading = false;
-            loadingPromise = null;
-        }
-    })();
-
-    return loadingPromise;
-}
-
-// Properly release FFmpeg resources
-export async function releaseFFmpeg(): Promise<void> {
-    if (!ffmpeg) return;
-
-    try {
-        console.log('Releasing FFmpeg instance');
-
-        try {
-            // Try to terminate the FFmpeg worker
-            ffmpeg.terminate();
-        } catch (error) {
-            console.warn('Error terminating FFmpeg worker:', error);
-        }
-
-        // Reset state regardless of success
-        ffmpeg = null;
-        usageCount = 0;
-        console.log('FFmpeg instance released');
-    } catch (error) {
-        console.error('Error releasing FFmpeg:', error);
-        // Force reset state even if error occurs
-        ffmpeg = null;
-        usageCount = 0;
-    }
-}
-
 export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
     console.log(`Extracting metadata from file: ${file.name} (${file.size} bytes)`);
 
@@ -204,392 +98,526 @@ export async function getVideoMetadata(file: File): Promise<VideoMetadata> {
 export async function extractFrames(
     file: File,
     targetFps: number = 1,
-    outputFormat: 'jpeg' | 'png' = 'jpeg'
+    outputFormat: 'jpeg' | 'png' = 'jpeg',
+    // Scale frames down to this width, keeping the aspect ratio
+    maxWidth?: number,
+    signal?: AbortSignal
 ): Promise<Blob[]> {
-    const ffmpegInstance = await loadFFmpeg();
-    const inputFileName = 'input.' + file.name.split('.').pop();
-
     try {
-        // Write the file to FFmpeg's virtual file system
-        await ffmpegInstance.writeFile(inputFileName, await fetchFile(file));
-
-        // Extract frames at the specified frame rate
-        const outputPattern = 'frame-%03d.' + outputFormat;
-        await ffmpegInstance.exec([
-            '-i', inputFileName,
-            '-vf', `fps=${targetFps}`,
-            '-q:v', '1',
-            outputPattern
-        ]);
-
-        // Get list of frame files
-        const frameFiles = await ffmpegInstance.listDir('./');
-        const frameFilenames = frameFiles
-            .filter(file => file.name.startsWith('frame-') && file.name.endsWith(`.${outputFormat}`))
-            .map(file => file.name)
-            .sort();
-
-        // Read each frame file
-        const frames: Blob[] = [];
-        for (const filename of frameFilenames) {
-            const data = await ffmpegInstance.readFile(filename);
-            if (data) {
-                const blob = new Blob([data], { type: `image/${outputFormat}` });
-                frames.push(blob);
+        return await runFFmpegJob(async ffmpegInstance => {
+            const inputFileName = await mountInputFile(ffmpegInstance, file);
+
+            // Extract frames at the specified frame rate
+            const outputPattern = 'frame-%03d.' + outputFormat;
+            await ffmpegInstance.exec([
+                '-i', inputFileName,
+                '-vf', maxWidth ? `fps=${targetFps},scale='min(${maxWidth},iw)':-2` : `fps=${targetFps}`,
+                '-q:v', maxWidth ? '4' : '1',
+                outputPattern
+            ]);
+
+            // Get list of frame files
+            const frameFiles = await ffmpegInstance.listDir('./');
+            const frameFilenames = frameFiles
+                .filter(file => file.name.startsWith('frame-') && file.name.endsWith(`.${outputFormat}`))
+                .map(file => file.name)
+                .sort();
+
+            // Read each frame file
+            const frames: Blob[] = [];
+            for (const filename of frameFilenames) {
+                const data = await ffmpegInstance.readFile(filename);
+                if (data) {
+                    const blob = new Blob([data], { type: `image/${outputFormat}` });
+                    frames.push(blob);
+                }
             }
-        }
 
-        // Clean up files to prevent memory leaks
-        for (const filename of frameFilenames) {
-            await ffmpegInstance.deleteFile(filename);
-        }
-        await ffmpegInstance.deleteFile(inputFileName);
-
-        return frames;
+            return frames;
+        }, { signal, label: 'Frame extraction' });
     } catch (error) {
         console.error('Error extracting frames:', error);
         throw error;
-    } finally {
-        // If usage count is high, release resources
-        if (usageCount >= forceReloadThreshold) {
-            await releaseFFmpeg();
-        }
     }
 }
 
+// Width frames are scaled to before scene scoring; detection doesn't need full resolution
+const SCENE_DETECTION_WIDTH = 320;
+
+/**
+ * Detect camera changes with FFmpeg's scene score and return the shot list
+ * @param file Video file
+ * @param duration Duration of the video in seconds
+ * @param threshold Scene score (0-1) above which a frame starts a new shot
+ * @param signal Cancels the detection and terminates its FFmpeg worker
+ */
+export async function detectSceneChanges(
+    file: File,
+    duration: number,
+    threshold: number = DEFAULT_SCENE_THRESHOLD,
+    signal?: AbortSignal
+): Promise<Shot[]> {
+    try {
+        return await runFFmpegJob(async ffmpegInstance => {
+            const boundaries: number[] = [];
+
+            // showinfo logs one line per frame that passes the select filter
+            const handleLog = ({ message }: { message: string }) => {
+                if (!message.includes('showinfo')) return;
+                const match = message.match(/pts_time:\s*([\d.]+)/);
+                if (match) boundaries.push(parseFloat(match[1]));
+            };
+
+            // The source is mounted read-only instead of copied into memory; the pool
+            // unmounts it when the job ends and terminates the worker if the job fails
+            const inputFileName = await mountInputFile(ffmpegInstance, file);
+
+            let exitCode: number;
+            ffmpegInstance.on('log', handleLog);
+            try {
+                exitCode = await ffmpegInstance.exec([
+                    '-i', inputFileName,
+                    '-an',
+                    '-vf', `scale=${SCENE_DETECTION_WIDTH}:-2,select='gt(scene,${threshold})',showinfo`,
+                    '-f', 'null',
+                    '-'
+                ]);
+            } finally {
+                ffmpegInstance.off('log', handleLog);
+            }
+            // A failed run logs no scene changes, which would otherwise read as a single shot
+            if (exitCode !== 0) {
+                throw new Error(`Scene detection failed with exit code ${exitCode}`);
+            }
+
+            const shots = buildShotList(boundaries, duration);
+            console.log(`Detected ${shots.length} shots (${boundaries.length} scene changes)`);
+            return shots;
+        }, { signal, label: 'Scene detection' });
+    } catch (error) {
+        console.error('Error detecting scene changes:', error);
+        throw error;
+    }
+}
+
+export interface HighlightVideoOptions {
+    // Follow the speaker with a moving crop instead of a center crop (needs targetDimensions)
+    trackSpeaker?: boolean;
+    // Burn captions from the transcript into the video
+    captions?: CaptionOptions;
+    // Display size of the source, which captions are laid out for when there are no targetDimensions
+    sourceDimensions?: { width: number; height: number };
+    // Cancels the render and terminates its FFmpeg worker
+    signal?: AbortSignal;
+}
+
+/**
+ * Resolution captions are laid out for: the output frame, which is the source's own
+ * size when there are no target dimensions
+ */
+async function getCaptionDimensions(
+    ffmpegInstance: FFmpeg,
+    inputFileName: string,
+    targetDimensions: { width: number; height: number } | undefined,
+    options: HighlightVideoOptions
+): Promise<{ width: number; height: number }> {
+    if (targetDimensions) return targetDimensions;
+    if (options.sourceDimensions) return options.sourceDimensions;
+
+    // Callers normally pass the size from the video metadata; the probe reports the stored frame size
+    const { video } = await probeSourceStreams(ffmpegInstance, inputFileName);
+    if (!video) throw new Error('No video stream found to lay out captions');
+    return { width: video.width, height: video.height };
+}
+
+// Scale to cover the target dimensions and center crop the overflow
+function getCenterCropFilter(targetDimensions: { width: number; height: number }): string {
+    return `scale=${targetDimensions.width}:${targetDimensions.height}:force_original_aspect_ratio=increase,crop=${targetDimensions.width}:${targetDimensions.height}`;
+}
+
 export async function createHighlightVideo(
     file: File,
     segments: VideoSegment[],
     outputFormat: 'mp4' | 'webm' = 'mp4',
     targetDimensions?: { width: number; height: number },
-    onProgress?: (step: string, progress: number, detail?: string) => void
+    onProgress?: RenderProgressCallback,
+    options: HighlightVideoOptions = {}
 ): Promise<Blob> {
+    // Plain cuts and crops go to the browser's hardware encoders when it has them
+    const webCodecsBlob = await tryWebCodecsRender(file, segments, outputFormat, targetDimensions, onProgress, options);
+    if (webCodecsBlob) {
+        storeBlobForRecovery(webCodecsBlob);
+        onProgress?.('finalizing', 100, 'Video processing complete');
+        return webCodecsBlob;
+    }
+
     const maxAttempts = 2;
     let lastError: Error | unknown = null;
 
-    // Record operation start time for tracking
-    lastOperationTime = Date.now();
-
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         try {
-            onProgress?.('init', 0, attempt > 1 ? `Reinitializing FFmpeg (Attempt ${attempt}/${maxAttempts})` : 'Initializing FFmpeg');
+            onProgress?.('init', 0, attempt > 1 ? `Retrying on a fresh FFmpeg worker (Attempt ${attempt}/${maxAttempts})` : 'Waiting for an FFmpeg worker');
 
-            // Fresh FFmpeg instance for each major operation
-            if (attempt > 1 || usageCount >= forceReloadThreshold) {
-                console.log("Releasing FFmpeg before new highlight video creation");
-                await releaseFFmpeg();
-            }
+            // A failed attempt terminates its worker, so a retry always starts on a fresh one
+            const outputBlob = await runFFmpegJob(
+                ffmpegInstance => renderHighlightVideo(ffmpegInstance, file, segments, outputFormat, targetDimensions, onProgress, options),
+                { signal: options.signal, label: `Highlight video (${segments.length} segment${segments.length === 1 ? '' : 's'})` }
+            );
 
-            // Make sure FFmpeg is properly loaded
-            let ffmpegInstance: FFmpeg;
-            try {
-                ffmpegInstance = await loadFFmpeg();
-                console.log(`FFmpeg loaded successfully for video processing (Attempt ${attempt}/${maxAttempts})`);
-            } catch (ffmpegError) {
-                console.error('Failed to load FFmpeg for video processing:', ffmpegError);
+            storeBlobForRecovery(outputBlob);
+            onProgress?.('finalizing', 100, 'Video processing complete');
+            return outputBlob;
+        } catch (error) {
+            // Cancelled renders are not retried
+            if (options.signal?.aborted) throw error;
 
-                // Force reload on error
-                await releaseFFmpeg();
+            console.error(`Error in createHighlightVideo (Attempt ${attempt}/${maxAttempts}):`, error);
+            lastError = error;
 
-                throw new Error(`Could not initialize video processor: ${ffmpegError instanceof Error ? ffmpegError.message : String(ffmpegError)}`);
+            // If not the last attempt, wait a bit before retrying
+            if (attempt < maxAttempts) {
+                console.log(`Retrying in 1 second... (Attempt ${attempt}/${maxAttempts})`);
+                await new Promise(resolve => setTimeout(resolve, 1000));
             }
+        }
+    }
 
-            // Track that we're in an active operation
-            lastOperationTime = Date.now();
+    // If we reach here, all attempts failed
+    console.error(`All ${maxAttempts} attempts failed in createHighlightVideo`);
+    throw lastError || new Error('Failed to process video after multiple attempts');
+}
 
-            // Try executing a simple command to verify the FFmpeg instance is valid
-            try {
-                await ffmpegInstance.exec(['-version']);
-                console.log('FFmpeg instance verified');
-            } catch (verifyError) {
-                console.error('FFmpeg instance verification failed:', verifyError);
-                // Force reload of FFmpeg for next attempt
-                await releaseFFmpeg();
-                throw new Error('FFmpeg instance invalid, forcing reload');
-            }
+// Store the blob in a global variable for recovery if needed
+function storeBlobForRecovery(blob: Blob): void {
+    if (typeof window !== 'undefined') {
+        window._lastCreatedVideoBlob = blob;
+        console.log('Saved video blob to window._lastCreatedVideoBlob for recovery');
+    }
+}
 
-            const fileExt = file.name.split('.').pop() || 'mp4';
-            const inputFileName = `input.${fileExt}`;
-            const outputFileName = `output.${outputFormat}`;
-            const finalOutputFileName = `final-output.${outputFormat}`;
+// Render with WebCodecs when the browser and the options allow it; null means the caller should use FFmpeg
+async function tryWebCodecsRender(
+    file: File,
+    segments: VideoSegment[],
+    outputFormat: 'mp4' | 'webm',
+    targetDimensions: { width: number; height: number } | undefined,
+    onProgress: RenderProgressCallback | undefined,
+    options: HighlightVideoOptions
+): Promise<Blob | null> {
+    if (outputFormat !== 'mp4') return null;
+    // Speaker tracking and captions are FFmpeg filters
+    if (options.trackSpeaker && targetDimensions) return null;
+    if (options.captions && options.captions.style !== 'none') return null;
+
+    const result = await planWebCodecsRender(file, targetDimensions);
+    if ('blocker' in result) {
+        console.log(`WebCodecs render not used (${result.blocker})`);
+        return null;
+    }
 
-            // Write the input file to the virtual filesystem
-            onProgress?.('writing_input', 10, 'Loading video file');
-            console.log(`Loading file into FFmpeg: ${file.name} (${file.size} bytes)`);
+    try {
+        console.log('Render engine: WebCodecs (hardware encoder)');
+        onProgress?.('extracting_segments', 20, 'Encoding segments with WebCodecs', undefined, 'webcodecs');
+        const estimateEta = createEtaEstimator();
+        return await renderWithWebCodecs(result.input, result.plan, segments, (progress, detail) =>
+            onProgress?.('extracting_segments', 20 + Math.round(progress * 70), detail, estimateEta(progress)),
+            options.signal
+        );
+    } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn('WebCodecs render failed, falling back to FFmpeg:', error);
+        return null;
+    }
+}
 
-            try {
-                // Extract file content directly without using fetchFile
-                const arrayBuffer = await file.arrayBuffer();
-                const fileData = new Uint8Array(arrayBuffer);
-
-                // Write to FFmpeg's virtual filesystem
-                await ffmpegInstance.writeFile(inputFileName, fileData);
-                console.log(`Successfully loaded file into FFmpeg, size: ${fileData.byteLength} bytes`);
-                onProgress?.('writing_input', 20, 'Video file loaded');
-
-                // Update operation timestamp
-                lastOperationTime = Date.now();
-            } catch (fileError) {
-                console.error('Error loading file into FFmpeg:', fileError);
-                // Force reload of FFmpeg for next attempt
-                await releaseFFmpeg();
-                throw new Error(`Failed to load video file: ${fileError instanceof Error ? fileError.message : String(fileError)}`);
-            }
+// Smart cut the segments when the source allows it; null means the caller should re-encode
+async function trySmartCut(
+    ffmpegInstance: FFmpeg,
+    inputFileName: string,
+    file: File,
+    segments: VideoSegment[],
+    targetDimensions: { width: number; height: number } | undefined,
+    onProgress?: RenderProgressCallback
+): Promise<Uint8Array | null> {
+    try {
+        const info = await probeSourceStreams(ffmpegInstance, inputFileName);
+        const blocker = getSmartCutBlocker(info, targetDimensions);
+        if (blocker) {
+            console.log(`Smart cut not possible (${blocker}), re-encoding segments`);
+            return null;
+        }
 
-            // List files to verify the input file was written
-            const files = await ffmpegInstance.listDir('./');
-            console.log('Files in FFmpeg filesystem:', files.map(f => f.name));
-
-            // Create a file list with segments for the concat filter
-            let concatContent = '';
-            let index = 0;
-            const totalSegments = segments.length;
-
-            onProgress?.('extracting_segments', 20, `Extracting ${totalSegments} segments`);
-
-            // For a single segment case, handle it differently to avoid concat issues
-            if (segments.length === 1) {
-                const segment = segments[0];
-                // Update operation timestamp
-                lastOperationTime = Date.now();
-
-                onProgress?.('extracting_segments', 40,
-                    `Extracting segment (${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s)`);
-
-                try {
-                    // Extract the single segment directly to the output file with re-encoding for accuracy
-                    let extractCommand = [
-                        '-ss', segment.start.toString(),
-                        '-i', inputFileName,
-                        '-t', (segment.end - segment.start).toString()
-                    ];
-
-                    // Apply resize if target dimensions are provided
-                    if (targetDimensions) {
-                        console.log(`Applying target dimensions: ${targetDimensions.width}x${targetDimensions.height} with center crop`);
-                        extractCommand = extractCommand.concat([
-                            '-vf', `scale=${targetDimensions.width}:${targetDimensions.height}:force_original_aspect_ratio=increase,crop=${targetDimensions.width}:${targetDimensions.height}`,
-                            '-c:v', 'libx264',
-                            '-crf', '23',
-                            '-preset', 'medium',
-                            '-c:a', 'aac'
-                        ]);
-                    } else {
-                        console.log('No target dimensions specified, using original dimensions');
-                        // Use re-encoding even without resizing for accurate cuts
-                        extractCommand = extractCommand.concat([
-                            '-c:v', 'libx264',
-                            '-crf', '23',
-                            '-preset', 'medium',
-                            '-c:a', 'aac'
-                        ]);
-                    }
+        onProgress?.('extracting_segments', 20, 'Cutting segments at keyframes');
+        return await smartCutSegments(ffmpegInstance, inputFileName, file, segments, info, (progress, detail, etaSeconds) =>
+            onProgress?.('extracting_segments', 20 + Math.round(progress * 70), detail, etaSeconds)
+        );
+    } catch (error) {
+        console.warn('Smart cut failed, falling back to re-encoding:', error);
+        return null;
+    }
+}
 
-                    extractCommand.push(outputFileName);
-                    console.log('Running FFmpeg command for single segment:', extractCommand.join(' '));
+// Cut, reframe and join the segments on a pooled FFmpeg worker
+async function renderHighlightVideo(
+    ffmpegInstance: FFmpeg,
+    file: File,
+    segments: VideoSegment[],
+    outputFormat: 'mp4' | 'webm',
+    targetDimensions: { width: number; height: number } | undefined,
+    onProgress: RenderProgressCallback | undefined,
+    options: HighlightVideoOptions
+): Promise<Blob> {
+    const trackSpeaker = !!(options.trackSpeaker && targetDimensions);
+    const mimeType = outputFormat === 'mp4' ? 'video/mp4' : 'video/webm';
 
-                    await ffmpegInstance.exec(extractCommand);
-                    console.log(`Extracted single segment: ${segment.start}s - ${segment.end}s directly to output`);
+    const outputFileName = `output.${outputFormat}`;
+    const finalOutputFileName = `final-output.${outputFormat}`;
 
-                    onProgress?.('finalizing', 90, 'Creating final video file');
+    // Mount the input so FFmpeg reads it from the File instead of a copy in memory
+    onProgress?.('writing_input', 10, 'Loading video file');
+    let inputFileName: string;
+    try {
+        inputFileName = await mountInputFile(ffmpegInstance, file);
+        console.log(`Mounted ${file.name} (${file.size} bytes) at ${inputFileName}`);
+        onProgress?.('writing_input', 20, 'Video file loaded');
+    } catch (fileError) {
+        console.error('Error mounting file into FFmpeg:', fileError);
+        throw new Error(`Failed to load video file: ${fileError instanceof Error ? fileError.message : String(fileError)}`);
+    }
 
-                    // Read the output file directly
-                    const data = await ffmpegInstance.readFile(outputFileName);
-                    if (!data) {
-                        throw new Error('Failed to read output file, data is null');
-                    }
+    // Clips that keep the source frames can copy whole GOPs instead of re-encoding everything
+    const needsFilters = trackSpeaker || (!!options.captions && options.captions.style !== 'none');
+    if (outputFormat === 'mp4' && !needsFilters) {
+        const smartCutData = await trySmartCut(ffmpegInstance, inputFileName, file, segments, targetDimensions, onProgress);
+        if (smartCutData) {
+            console.log('Render engine: FFmpeg (smart cut)');
+            onProgress?.('finalizing', 90, 'Creating final video file', undefined, 'smart-cut');
+            const outputBlob = new Blob([smartCutData], { type: mimeType });
+            console.log(`Successfully created smart cut output file, size: ${outputBlob.size} bytes`);
+            return outputBlob;
+        }
+    }
 
-                    const mimeType = outputFormat === 'mp4' ? 'video/mp4' : 'video/webm';
-                    const outputBlob = new Blob([data], { type: mimeType });
-                    console.log(`Successfully created output file, size: ${outputBlob.size} bytes`);
+    console.log('Render engine: FFmpeg (libx264)');
 
-                    // Store the blob in a global variable for recovery if needed
-                    if (typeof window !== 'undefined') {
-                        window._lastCreatedVideoBlob = outputBlob;
-                        console.log('Saved video blob to window._lastCreatedVideoBlob for recovery');
-                    }
+    // Create a file list with segments for the concat filter
+    let concatContent = '';
+    let index = 0;
+    const totalSegments = segments.length;
 
-                    // Clean up files
-                    try {
-                        await ffmpegInstance.deleteFile(inputFileName);
-                        await ffmpegInstance.deleteFile(outputFileName);
-                        console.log('Cleaned up FFmpeg files for single segment');
-                    } catch (cleanupError) {
-                        console.warn('Non-fatal error during cleanup:', cleanupError);
-                    }
+    onProgress?.('extracting_segments', 20, `Extracting ${totalSegments} segments`, undefined, 'libx264');
 
-                    // Release FFmpeg
-                    await releaseFFmpeg();
+    // For a single segment case, handle it differently to avoid concat issues
+    if (segments.length === 1) {
+        const segment = segments[0];
 
-                    onProgress?.('finalizing', 100, 'Video processing complete');
-                    return outputBlob;
-                } catch (segmentError) {
-                    console.error(`Error processing single segment:`, segmentError);
-                    await releaseFFmpeg();
-                    throw new Error(`Failed to process segment: ${segmentError instanceof Error ? segmentError.message : String(segmentError)}`);
-                }
-            }
+        onProgress?.('extracting_segments', 40,
+            `Extracting segment (${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s)`);
 
-            // Multiple segments case - extract each segment first
-            for (const segment of segments) {
-                // Update operation timestamp for each segment
-                lastOperationTime = Date.now();
-
-                const segmentFile = `segment-${index}.${outputFormat}`;
-
-                // Calculate segment progress (20-60% of total)
-                const segmentProgress = 20 + Math.floor((index / totalSegments) * 40);
-                onProgress?.('extracting_segments', segmentProgress,
-                    `Extracting segment ${index + 1}/${totalSegments} (${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s)`);
-
-                try {
-                    // Extract each segment with re-encoding for accurate frame boundaries
-                    await ffmpegInstance.exec([
-                        '-ss', segment.start.toString(),
-                        '-i', inputFileName,
-                        '-t', (segment.end - segment.start).toString(),
-                        '-c:v', 'libx264', // Re-encode video
-                        '-preset', 'medium', // Balance between speed and quality
-                        '-crf', '23', // Good quality (lower is better)
-                        '-c:a', 'aac', // Re-encode audio
-                        segmentFile
-                    ]);
-                    console.log(`Extracted segment ${index + 1}: ${segment.start}s - ${segment.end}s`);
-                } catch (segmentError) {
-                    console.error(`Error extracting segment ${index + 1}:`, segmentError);
-                    throw new Error(`Failed to extract segment ${index + 1}: ${segmentError instanceof Error ? segmentError.message : String(segmentError)}`);
+        try {
+            // Extract the single segment directly to the output file with re-encoding for accuracy
+            let extractCommand = [
+                '-ss', segment.start.toString(),
+                '-i', inputFileName,
+                '-t', (segment.end - segment.start).toString()
+            ];
+
+            const videoFilters: string[] = [];
+
+            // Apply resize if target dimensions are provided
+            if (targetDimensions) {
+                let videoFilter: string | null = null;
+                if (trackSpeaker) {
+                    onProgress?.('tracking_speaker', 30, 'Tracking speaker position');
+                    videoFilter = await computeSpeakerTrackingFilter(ffmpegInstance, inputFileName, segment, targetDimensions);
                 }
 
-                concatContent += `file ${segmentFile}\n`;
-                index++;
+                console.log(`Applying target dimensions: ${targetDimensions.width}x${targetDimensions.height} with ${videoFilter ? 'speaker-tracking' : 'center'} crop`);
+                videoFilters.push(videoFilter || getCenterCropFilter(targetDimensions));
+            } else {
+                console.log('No target dimensions specified, using original dimensions');
             }
 
-            // Update operation timestamp
-            lastOperationTime = Date.now();
+            // Burn in captions after cropping so they are laid out for the output frame
+            if (options.captions) {
+                const captionFilter = await prepareCaptionFilter(
+                    ffmpegInstance,
+                    options.captions,
+                    [segment],
+                    await getCaptionDimensions(ffmpegInstance, inputFileName, targetDimensions, options)
+                );
+                if (captionFilter) videoFilters.push(captionFilter);
+            }
 
-            // Write the concat file
-            onProgress?.('concatenating', 60, 'Preparing to join segments');
-            await ffmpegInstance.writeFile('concat.txt', new TextEncoder().encode(concatContent));
-            console.log('Created concat file with content:', concatContent);
+            if (videoFilters.length > 0) {
+                extractCommand = extractCommand.concat(['-vf', videoFilters.join(',')]);
+            }
 
-            // Concat all segments
-            let command = [
-                '-f', 'concat',
-                '-safe', '0',
-                '-i', 'concat.txt'
-            ];
+            // Use re-encoding even without resizing for accurate cuts
+            extractCommand = extractCommand.concat([
+                '-c:v', 'libx264',
+                '-crf', '23',
+                '-preset', 'medium',
+                '-c:a', 'aac'
+            ]);
+
+            extractCommand.push(outputFileName);
+            console.log('Running FFmpeg command for single segment:', extractCommand.join(' '));
+
+            // Encoding is most of the render, so progress follows the output time FFmpeg has written
+            const segmentDuration = segment.end - segment.start;
+            const encodeProgress = createEncodeProgress(ffmpegInstance, segmentDuration, (fraction, etaSeconds) =>
+                onProgress?.('encoding', 40 + Math.round(fraction * 50),
+                    `Encoding segment: ${(fraction * segmentDuration).toFixed(1)}s of ${segmentDuration.toFixed(1)}s`, etaSeconds)
+            );
+            await encodeProgress.track(segmentDuration, () => ffmpegInstance.exec(extractCommand));
+            console.log(`Extracted single segment: ${segment.start}s - ${segment.end}s directly to output`);
 
-            // Apply resize if target dimensions are provided
-            if (targetDimensions) {
-                onProgress?.('concatenating', 65, `Resizing to ${targetDimensions.width}x${targetDimensions.height}`);
-                console.log(`Applying target dimensions to concat output: ${targetDimensions.width}x${targetDimensions.height} with center crop`);
-                command = command.concat([
-                    '-vf', `scale=${targetDimensions.width}:${targetDimensions.height}:force_original_aspect_ratio=increase,crop=${targetDimensions.width}:${targetDimensions.height}`,
-                    '-c:v', 'libx264',
-                    '-crf', '23',
-                    '-preset', 'medium',
-                    '-c:a', 'aac'
-                ]);
-            } else {
-                console.log('No target dimensions for concat, using original dimensions');
-                // Re-encode with good quality settings to ensure consistency between segments
-                command = command.concat([
-                    '-c:v', 'libx264',
-                    '-crf', '23',
-                    '-preset', 'medium',
-                    '-c:a', 'aac'
-                ]);
+            onProgress?.('finalizing', 90, 'Creating final video file');
+
+            // Read the output file directly
+            const data = await ffmpegInstance.readFile(outputFileName);
+            if (!data) {
+                throw new Error('Failed to read output file, data is null');
             }
 
-            command.push(finalOutputFileName);
-            onProgress?.('concatenating', 70, 'Joining segments into final video');
-            console.log('Running FFmpeg command:', command.join(' '));
+            const outputBlob = new Blob([data], { type: mimeType });
+            console.log(`Successfully created output file, size: ${outputBlob.size} bytes`);
+            return outputBlob;
+        } catch (segmentError) {
+            console.error(`Error processing single segment:`, segmentError);
+            throw new Error(`Failed to process segment: ${segmentError instanceof Error ? segmentError.message : String(segmentError)}`);
+        }
+    }
 
-            try {
-                console.log('Starting final concatenation...');
-                await ffmpegInstance.exec(command);
-                console.log('Successfully joined segments into final video');
-
-                // Update operation timestamp
-                lastOperationTime = Date.now();
-            } catch (concatError) {
-                console.error('Error joining segments:', concatError);
-                throw new Error(`Failed to join segments: ${concatError instanceof Error ? concatError.message : String(concatError)}`);
+    // Every segment is encoded twice, once on its own and again when joined, so progress
+    // follows the output time FFmpeg has written over both passes (20-90% of total)
+    const totalDuration = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+    let encodeStep = 'extracting_segments';
+    let encodeDetail = '';
+    let encodedFraction = 0;
+    const encodeProgress = createEncodeProgress(ffmpegInstance, totalDuration * 2, (fraction, etaSeconds) => {
+        encodedFraction = fraction;
+        onProgress?.(encodeStep, 20 + Math.round(fraction * 70), encodeDetail, etaSeconds);
+    });
+
+    // Multiple segments case - extract each segment first
+    for (const segment of segments) {
+        const segmentFile = `segment-${index}.${outputFormat}`;
+
+        encodeDetail = `Extracting segment ${index + 1}/${totalSegments} (${segment.start.toFixed(1)}s - ${segment.end.toFixed(1)}s)`;
+        onProgress?.('extracting_segments', 20 + Math.round(encodedFraction * 70), encodeDetail);
+
+        try {
+            // When tracking the speaker, reframe each segment individually since
+            // the crop path is different for every segment
+            let segmentFilter: string[] = [];
+            if (trackSpeaker && targetDimensions) {
+                const trackingFilter = await computeSpeakerTrackingFilter(ffmpegInstance, inputFileName, segment, targetDimensions);
+                segmentFilter = ['-vf', trackingFilter || getCenterCropFilter(targetDimensions)];
             }
 
-            // Read the output file (using the final output filename)
-            onProgress?.('finalizing', 90, 'Creating final video file');
+            // Extract each segment with re-encoding for accurate frame boundaries
+            await encodeProgress.track(segment.end - segment.start, () => ffmpegInstance.exec([
+                '-ss', segment.start.toString(),
+                '-i', inputFileName,
+                '-t', (segment.end - segment.start).toString(),
+                ...segmentFilter,
+                '-c:v', 'libx264', // Re-encode video
+                '-preset', 'medium', // Balance between speed and quality
+                '-crf', '23', // Good quality (lower is better)
+                '-c:a', 'aac', // Re-encode audio
+                segmentFile
+            ]));
+            console.log(`Extracted segment ${index + 1}: ${segment.start}s - ${segment.end}s`);
+        } catch (segmentError) {
+            console.error(`Error extracting segment ${index + 1}:`, segmentError);
+            throw new Error(`Failed to extract segment ${index + 1}: ${segmentError instanceof Error ? segmentError.message : String(segmentError)}`);
+        }
 
-            try {
-                // Read the final concatenated file
-                const data = await ffmpegInstance.readFile(finalOutputFileName);
-                if (!data) {
-                    throw new Error('Failed to read final output file, data is null');
-                }
+        concatContent += `file ${segmentFile}\n`;
+        index++;
+    }
 
-                const mimeType = outputFormat === 'mp4' ? 'video/mp4' : 'video/webm';
-                const outputBlob = new Blob([data], { type: mimeType });
-                console.log(`Successfully created final output file, size: ${outputBlob.size} bytes`);
+    // Write the concat file
+    onProgress?.('concatenating', 20 + Math.round(encodedFraction * 70), 'Preparing to join segments');
+    await ffmpegInstance.writeFile('concat.txt', new TextEncoder().encode(concatContent));
+    console.log('Created concat file with content:', concatContent);
 
-                // Add enhanced logging to ensure file is ready
-                console.log(`Video processing COMPLETE - Output blob created successfully`);
-                console.log(`Mime type: ${mimeType}, Blob valid: ${outputBlob instanceof Blob}`);
+    // Concat all segments
+    let command = [
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', 'concat.txt'
+    ];
 
-                // Log to help diagnose UI update issues
-                console.log(`About to return output blob from createHighlightVideo function`);
+    const videoFilters: string[] = [];
 
-                // Store the blob in a global variable for recovery if needed
-                if (typeof window !== 'undefined') {
-                    window._lastCreatedVideoBlob = outputBlob;
-                    console.log('Saved video blob to window._lastCreatedVideoBlob for recovery');
-                }
+    // Apply resize if target dimensions are provided (segments are already reframed when tracking the speaker)
+    if (targetDimensions && !trackSpeaker) {
+        console.log(`Applying target dimensions to concat output: ${targetDimensions.width}x${targetDimensions.height} with center crop`);
+        videoFilters.push(getCenterCropFilter(targetDimensions));
+    } else {
+        console.log(trackSpeaker
+            ? 'Segments already reframed, concatenating without resizing'
+            : 'No target dimensions for concat, using original dimensions');
+    }
 
-                // Clean up files to prevent memory leaks and filesystem errors
-                try {
-                    // List and remove all files created during the process
-                    const allFiles = await ffmpegInstance.listDir('./');
-                    for (const file of allFiles) {
-                        if (file.name !== '.' && file.name !== '..') {
-                            await ffmpegInstance.deleteFile(file.name);
-                        }
-                    }
-                    console.log('Cleaned up FFmpeg virtual filesystem');
-                } catch (cleanupError) {
-                    console.warn('Non-fatal error during filesystem cleanup:', cleanupError);
-                    // Don't throw - we already have the output blob
-                }
+    // Captions are timed against the joined timeline, so burn them in on the concat pass
+    if (options.captions) {
+        const captionFilter = await prepareCaptionFilter(
+            ffmpegInstance,
+            options.captions,
+            segments,
+            await getCaptionDimensions(ffmpegInstance, inputFileName, targetDimensions, options)
+        );
+        if (captionFilter) videoFilters.push(captionFilter);
+    }
 
-                // Always release FFmpeg when processing is complete
-                console.log(`Releasing FFmpeg after video processing (usage: ${usageCount})`);
-                await releaseFFmpeg();
-
-                onProgress?.('finalizing', 100, 'Video processing complete');
-                return outputBlob;
-            } catch (outputError) {
-                console.error('Error reading final output file:', outputError);
-                // Force FFmpeg reload on error
-                await releaseFFmpeg();
-                throw new Error(`Failed to read final output file: ${outputError instanceof Error ? outputError.message : String(outputError)}`);
-            }
+    if (videoFilters.length > 0) {
+        command = command.concat(['-vf', videoFilters.join(',')]);
+    }
 
-        } catch (error) {
-            console.error(`Error in createHighlightVideo (Attempt ${attempt}/${maxAttempts}):`, error);
-            lastError = error;
+    // Re-encode with good quality settings to ensure consistency between segments
+    command = command.concat([
+        '-c:v', 'libx264',
+        '-crf', '23',
+        '-preset', 'medium',
+        '-c:a', 'aac'
+    ]);
 
-            // Always release FFmpeg on error
-            await releaseFFmpeg();
+    command.push(finalOutputFileName);
+    encodeStep = 'concatenating';
+    encodeDetail = 'Joining segments into final video';
+    onProgress?.('concatenating', 20 + Math.round(encodedFraction * 70), encodeDetail);
+    console.log('Running FFmpeg command:', command.join(' '));
 
-            // If not the last attempt, wait a bit before retrying
-            if (attempt < maxAttempts) {
-                console.log(`Retrying in 1 second... (Attempt ${attempt}/${maxAttempts})`);
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-        }
+    try {
+        console.log('Starting final concatenation...');
+        await encodeProgress.track(totalDuration, () => ffmpegInstance.exec(command));
+        console.log('Successfully joined segments into final video');
+    } catch (concatError) {
+        console.error('Error joining segments:', concatError);
+        throw new Error(`Failed to join segments: ${concatError instanceof Error ? concatError.message : String(concatError)}`);
     }
 
-    // If we reach here, all attempts failed
-    console.error(`All ${maxAttempts} attempts failed in createHighlightVideo`);
-    throw lastError || new Error('Failed to process video after multiple attempts');
+    // Read the output file (using the final output filename)
+    onProgress?.('finalizing', 90, 'Creating final video file');
+
+    try {
+        // Read the final concatenated file
+        const data = await ffmpegInstance.readFile(finalOutputFileName);
+        if (!data) {
+            throw new Error('Failed to read final output file, data is null');
+        }
+
+        const outputBlob = new Blob([data], { type: mimeType });
+        console.log(`Successfully created final output file, size: ${outputBlob.size} bytes`);
+        return outputBlob;
+    } catch (outputError) {
+        console.error('Error reading final output file:', outputError);
+        throw new Error(`Failed to read final output file: ${outputError instanceof Error ? outputError.message : String(outputError)}`);
+    }
 }
 
 // Function to calculate dimensions based on target aspect ratio without preserving the original aspect ratio
@@ -673,7 +701,9 @@ export async function createPlatformSpecificVideos(
     file: File,
     segments: VideoSegment[],
     videoMetadata: VideoMetadata,
-    onProgress?: (step: string, progress: number, detail?: string) => void
+    onProgress?: RenderProgressCallback,
+    captions?: CaptionOptions,
+    signal?: AbortSignal
 ): Promise<Record<string, Blob>> {
     try {
         const outputs: Record<string, Blob> = {};
@@ -713,11 +743,17 @@ export async function createPlatformSpecificVideos(
             console.log(`Segments have targetPlatform set: ${segments.map(s => s.targetPlatform || 'none').join(', ')}`);
 
             // For each platform processing, we adapt the progress to be within the current platform's range
-            const platformProgressCallback = (step: string, progress: number, detail?: string) => {
+            const platformStartedAt = performance.now();
+            const platformProgressCallback: RenderProgressCallback = (step, progress, detail, etaSeconds, engine) => {
                 // Scale progress to be within the correct range for overall progress
                 // Each platform takes up (1/totalPlatforms) of the total progress space
                 const scaledProgress = (i / totalPlatforms) * 100 + (progress / totalPlatforms);
-                onProgress?.(step, scaledProgress, `[${platform}] ${detail}`);
+                // The ETA covers this platform's render; the platforms after it are assumed to take as long
+                const platformSeconds = (performance.now() - platformStartedAt) / 1000 + (etaSeconds ?? 0);
+                const jobEtaSeconds = etaSeconds === undefined
+                    ? undefined
+                    : etaSeconds + (totalPlatforms - i - 1) * platformSeconds;
+                onProgress?.(step, scaledProgress, `[${platform}] ${detail}`, jobEtaSeconds, engine);
             };
 
             try {
@@ -728,10 +764,18 @@ export async function createPlatformSpecificVideos(
                     segments,
                     'mp4',
                     dimensions,
-                    platformProgressCallback
+                    platformProgressCallback,
+                    {
+                        trackSpeaker: shouldTrackSpeaker(platform as VideoSegment['targetPlatform']),
+                        captions,
+                        sourceDimensions: { width: videoMetadata.width, height: videoMetadata.height },
+                        signal
+                    }
                 );
                 console.log(`Successfully created ${platform} format video, size: ${outputs[platform].size} bytes`);
             } catch (platformError) {
+                // A cancelled render stops every platform, not just this one
+                if (signal?.aborted) throw platformError;
                 console.error(`Error creating ${platform} format:`, platformError);
                 // Continue with other platforms instead of failing completely
                 onProgress?.('platform_specific', (i / totalPlatforms) * 100,
@@ -748,145 +792,25 @@ export async function createPlatformSpecificVideos(
     } catch (error) {
         console.error('Error in createPlatformSpecificVideos:', error);
         throw error;
+    } finally {
+        // The face detection model is only needed while rendering
+        releaseFaceDetector();
     }
 }
 
-// Add a new function specifically for concatenating segments without transcoding
-export async function concatenateSegments(
-    segments: VideoSegment[],
-    outputFormat: 'mp4' | 'webm' = 'mp4',
-    onProgress?: (step: string, progress: number, detail?: string) => void
-): Promise<Blob> {
-    console.log('Starting simple segment concatenation without transcoding');
-    onProgress?.('concatenating', 0, 'Preparing to join segments');
-
-    const maxAttempts = 2;
-    let lastError: Error | unknown = null;
-
-    // Record operation start time for tracking
-    lastOperationTime = Date.now();
-
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-        try {
-            // Always start with a fresh FFmpeg instance for concatenation
-            if (ffmpeg) {
-                console.log('Releasing any existing FFmpeg instance before concatenation');
-                await releaseFFmpeg();
-            }
-
-            // Load a fresh FFmpeg instance
-            const ffmpegInstance = await loadFFmpeg();
-            console.log('FFmpeg loaded successfully for concatenation');
-
-            // List available segment files
-            onProgress?.('concatenating', 10, 'Checking for segment files');
-
-            try {
-                // Verify FFmpeg instance is working
-                await ffmpegInstance.exec(['-version']);
-                console.log('FFmpeg instance verified for concatenation');
-            } catch (error) {
-                console.error('FFmpeg instance verification failed:', error);
-                await releaseFFmpeg();
-                throw new Error('FFmpeg instance invalid for concatenation');
-            }
-
-            // Create concat file
-            let concatContent = '';
-            for (let i = 0; i < segments.length; i++) {
-                // In concatenateSegments, we assume segment files are already created
-                // and named in a predictable format
-                const segmentFile = `segment-${i}.${outputFormat}`;
-                concatContent += `file ${segmentFile}\n`;
-
-                // Update progress
-                const progress = 10 + Math.floor((i / segments.length) * 30);
-                onProgress?.('concatenating', progress, `Preparing segment ${i + 1}/${segments.length}`);
-            }
-
-            console.log('Creating concat file with content:', concatContent);
-            onProgress?.('concatenating', 40, 'Creating file list for concatenation');
-            await ffmpegInstance.writeFile('concat.txt', new TextEncoder().encode(concatContent));
-
-            // Simple concatenation command without transcoding
-            const outputFileName = `combined-output.${outputFormat}`;
-            const command = [
-                '-f', 'concat',
-                '-safe', '0',
-                '-i', 'concat.txt',
-                '-c', 'copy', // Just copy streams without transcoding
-                outputFileName
-            ];
-
-            console.log('Running simple concatenation command:', command.join(' '));
-            onProgress?.('concatenating', 50, 'Joining segments (without transcoding)');
-
-            try {
-                await ffmpegInstance.exec(command);
-                console.log('Successfully joined segments without transcoding');
-                onProgress?.('concatenating', 80, 'Join complete, preparing final file');
-            } catch (concatError) {
-                console.error('Error during simple concatenation:', concatError);
-                throw new Error(`Failed to join segments: ${concatError instanceof Error ? concatError.message : String(concatError)}`);
-            }
-
-            // Read output file
-            try {
-                const data = await ffmpegInstance.readFile(outputFileName);
-                if (!data) {
-                    throw new Error('Failed to read concatenated output file');
-                }
-
-                const mimeType = outputFormat === 'mp4' ? 'video/mp4' : 'video/webm';
-                const outputBlob = new Blob([data], { type: mimeType });
-                console.log(`Successfully created concatenated file, size: ${outputBlob.size} bytes`);
-
-                // Store for recovery
-                if (typeof window !== 'undefined') {
-                    window._lastCreatedVideoBlob = outputBlob;
-                }
-
-                // We'll skip cleanup to avoid issues, and just release the entire instance
-                console.log('Releasing FFmpeg after concatenation');
-                await releaseFFmpeg();
-
-                onProgress?.('finalizing', 100, 'Concatenation complete');
-                return outputBlob;
-            } catch (outputError) {
-                console.error('Error reading concatenated output:', outputError);
-                await releaseFFmpeg();
-                throw new Error(`Failed to read output: ${outputError instanceof Error ? outputError.message : String(outputError)}`);
-            }
-        } catch (error) {
-            console.error(`Error in concatenateSegments (Attempt ${attempt}/${maxAttempts}):`, error);
-            lastError = error;
-
-            // Release FFmpeg and try again
-            await releaseFFmpeg();
-
-            if (attempt < maxAttempts) {
-                console.log(`Retrying concatenation in 1 second... (Attempt ${attempt}/${maxAttempts})`);
-                await new Promise(resolve => setTimeout(resolve, 1000));
-            }
-        }
-    }
-
-    // If we reach here, all attempts failed
-    console.error(`All ${maxAttempts} attempts failed in concatenateSegments`);
-    throw lastError || new Error('Failed to concatenate segments after multiple attempts');
-}
-
 /**
  * Concatenates multiple segment blobs directly without re-encoding
  * @param segmentBlobs Array of Blob objects representing video segments
  * @param outputFormat Output format (defaults to mp4)
  * @param progressCallback Optional callback for progress updates
+ * @param signal Cancels the concatenation and terminates its FFmpeg worker
  * @returns A Blob representing the concatenated video
  */
 export const concatenateSegmentBlobs = async (
     segmentBlobs: Blob[],
     outputFormat: string = 'mp4',
-    progressCallback?: (step: string, progress: number, detail?: string) => void
+    progressCallback?: (step: string, progress: number, detail?: string) => void,
+    signal?: AbortSignal
 ): Promise<Blob> => {
     if (!segmentBlobs || segmentBlobs.length === 0) {
         throw new Error('No segment blobs provided for concatenation');
@@ -903,72 +827,52 @@ export const concatenateSegmentBlobs = async (
     }
 
     try {
-        // Get FFmpeg instance
-        const ffmpeg = await loadFFmpeg();
-        progressCallback?.('load', 0.1, 'FFmpeg loaded');
-
-        // Write each segment to FFmpeg filesystem
-        const segmentFiles: string[] = [];
-
-        for (let i = 0; i < segmentBlobs.length; i++) {
-            const segmentName = `segment_${i}.mp4`;
-            await ffmpeg.writeFile(segmentName, new Uint8Array(await segmentBlobs[i].arrayBuffer()));
-            segmentFiles.push(segmentName);
-            progressCallback?.('writing', 0.1 + (i / segmentBlobs.length * 0.3), `Writing segment ${i + 1}/${segmentBlobs.length}`);
-        }
+        const blob = await runFFmpegJob(async ffmpeg => {
+            progressCallback?.('load', 0.1, 'FFmpeg loaded');
 
-        // Create concat.txt file for FFmpeg
-        const concatContent = segmentFiles.map(file => `file ${file}`).join('\n');
-        await ffmpeg.writeFile('concat.txt', new TextEncoder().encode(concatContent));
-        progressCallback?.('preparing', 0.4, 'Preparing concatenation');
-
-        // Concatenate without re-encoding (much faster!)
-        const outputFileName = `output.${outputFormat}`;
-        console.log('Executing fast concatenation command...');
-        progressCallback?.('concatenating', 0.5, 'Combining segments (no re-encoding)');
-
-        // Using stream copy (-c copy) to avoid re-encoding
-        await ffmpeg.exec([
-            '-f', 'concat',
-            '-safe', '0',
-            '-i', 'concat.txt',
-            '-c', 'copy',
-            outputFileName
-        ]);
-
-        progressCallback?.('processing', 0.8, 'Reading concatenated video');
-
-        // Read the output file
-        const data = await ffmpeg.readFile(outputFileName);
-        const blob = new Blob([data], { type: `video/${outputFormat}` });
-
-        // Clean up
-        for (const file of segmentFiles) {
-            try {
-                await ffmpeg.deleteFile(file);
-            } catch (e) {
-                console.warn(`Could not clean up file ${file}`, e);
+            // Write each segment to FFmpeg filesystem
+            const segmentFiles: string[] = [];
+
+            for (let i = 0; i < segmentBlobs.length; i++) {
+                const segmentName = `segment_${i}.mp4`;
+                await ffmpeg.writeFile(segmentName, new Uint8Array(await segmentBlobs[i].arrayBuffer()));
+                segmentFiles.push(segmentName);
+                progressCallback?.('writing', 0.1 + (i / segmentBlobs.length * 0.3), `Writing segment ${i + 1}/${segmentBlobs.length}`);
             }
-        }
-        try {
-            await ffmpeg.deleteFile('concat.txt');
-            await ffmpeg.deleteFile(outputFileName);
-        } catch (e) {
-            console.warn('Could not clean up concat files', e);
-        }
 
-        // Release FFmpeg resources if we've completed our high-level operation
-        if (usageCount >= forceReloadThreshold) {
-            await releaseFFmpeg();
-        }
+            // Create concat.txt file for FFmpeg
+            const concatContent = segmentFiles.map(file => `file ${file}`).join('\n');
+            await ffmpeg.writeFile('concat.txt', new TextEncoder().encode(concatContent));
+            progressCallback?.('preparing', 0.4, 'Preparing concatenation');
+
+            // Concatenate without re-encoding (much faster!)
+            const outputFileName = `output.${outputFormat}`;
+            console.log('Executing fast concatenation command...');
+            progressCallback?.('concatenating', 0.5, 'Combining segments (no re-encoding)');
+
+            // Using stream copy (-c copy) to avoid re-encoding
+            await ffmpeg.exec([
+                '-f', 'concat',
+                '-safe', '0',
+                '-i', 'concat.txt',
+                '-c', 'copy',
+                outputFileName
+            ]);
+
+            progressCallback?.('processing', 0.8, 'Reading concatenated video');
+
+            // Read the output file
+            const data = await ffmpeg.readFile(outputFileName);
+            return new Blob([data], { type: `video/${outputFormat}` });
+        }, { signal, label: 'Segment concatenation' });
 
         progressCallback?.('complete', 1, 'Concatenation complete');
         console.log(`Concatenated video created: ${blob.size} bytes`);
         return blob;
     } catch (error) {
+        if (signal?.aborted) throw error;
         console.error('Error in fast concatenation:', error);
         progressCallback?.('error', 0, `Concatenation error: ${error instanceof Error ? error.message : String(error)}`);
-        await releaseFFmpeg(); // Always release on error
         throw new Error(`Failed to concatenate segments: ${error instanceof Error ? error.message : String(error)}`);
     }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,449 @@
+import {
+    ALL_FORMATS,
+    BlobSource,
+    BufferTarget,
+    EncodedAudioPacketSource,
+    EncodedPacket,
+    EncodedPacketSink,
+    EncodedVideoPacketSource,
+    Input,
+    InputAudioTrack,
+    InputVideoTrack,
+    Mp4OutputFormat,
+    Output,
+} from 'mediabunny';
+import { VideoSegment } from '@/types';
+
+/**
+ * Render engine that uses the browser's WebCodecs encoders instead of libx264 in
+ * ffmpeg.wasm. Decoding and encoding run on the GPU or media engine where the
+ * browser has one, which is many times faster than software encoding in wasm.
+ *
+ * The source is demuxed and the output muxed to MP4 in JS with mediabunny. Frames
+ * of each segment are decoded with VideoDecoder, center cropped to the target size
+ * on a canvas and re-encoded with VideoEncoder; audio goes through AudioDecoder
+ * and AudioEncoder. Renders that need FFmpeg filters (speaker tracking, burned-in
+ * captions) or codecs the browser can't handle fall back to FFmpeg, as do clips
+ * FFmpeg can smart cut, since copying is lossless.
+ */
+
+// H.264 High profile: level 4.0 covers 1080p30, level 5.1 covers 4K
+const AVC_CODEC_1080P = 'avc1.640028';
+const AVC_CODEC_4K = 'avc1.640033';
+const AAC_CODEC = 'mp4a.40.2';
+const AUDIO_BITRATE = 128_000;
+// Bits per pixel per frame, roughly the quality of libx264 at CRF 23
+const VIDEO_BITS_PER_PIXEL = 0.1;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const DEFAULT_FRAME_RATE = 30;
+// Frames and chunks queued in the codecs before decoding pauses
+const MAX_CODEC_QUEUE = 8;
+// Hardware encoders allow only a few sessions at once, so parallel renders wait for a slot
+const MAX_CONCURRENT_RENDERS = 2;
+
+export interface WebCodecsRenderPlan {
+    videoTrack: InputVideoTrack;
+    audioTrack: InputAudioTrack | null;
+    videoDecoderConfig: VideoDecoderConfig;
+    videoEncoderConfig: VideoEncoderConfig;
+    audioDecoderConfig: AudioDecoderConfig | null;
+    audioEncoderConfig: AudioEncoderConfig | null;
+    rotation: number;
+    frameRate: number;
+}
+
+export type WebCodecsPlanResult =
+    | { plan: WebCodecsRenderPlan; input: Input }
+    | { blocker: string };
+
+let activeRenders = 0;
+const renderSlotWaiters: (() => void)[] = [];
+
+function getAbortError(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+}
+
+async function acquireRenderSlot(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw getAbortError(signal);
+    if (activeRenders < MAX_CONCURRENT_RENDERS) {
+        activeRenders++;
+        return;
+    }
+    // The releasing render hands its slot over directly; a cancelled render leaves the queue
+    await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            renderSlotWaiters.splice(renderSlotWaiters.indexOf(waiter), 1);
+            reject(getAbortError(signal!));
+        };
+        const waiter = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        renderSlotWaiters.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+function releaseRenderSlot(): void {
+    const next = renderSlotWaiters.shift();
+    if (next) {
+        next();
+    } else {
+        activeRenders--;
+    }
+}
+
+// Wait until a codec has worked through its queue enough to accept more input
+async function waitForQueue(getQueueSize: () => number, signal?: AbortSignal): Promise<void> {
+    while (getQueueSize() > MAX_CODEC_QUEUE) {
+        if (signal?.aborted) throw getAbortError(signal);
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+}
+
+function toEven(value: number): number {
+    return Math.max(2, Math.round(value / 2) * 2);
+}
+
+/**
+ * Check whether the browser can render this video with WebCodecs and prepare the
+ * codec configurations. The returned input must be disposed by the caller.
+ * @param file Source video
+ * @param targetDimensions Output dimensions, or the source's display size when omitted
+ */
+export async function planWebCodecsRender(
+    file: File,
+    targetDimensions?: { width: number; height: number }
+): Promise<WebCodecsPlanResult> {
+    if (typeof VideoEncoder === 'undefined' || typeof VideoDecoder === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+        return { blocker: 'WebCodecs is not available in this browser' };
+    }
+
+    const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS });
+    try {
+        const videoTrack = await input.getPrimaryVideoTrack();
+        if (!videoTrack) {
+            input.dispose();
+            return { blocker: 'no video track found' };
+        }
+
+        const videoDecoderConfig = await videoTrack.getDecoderConfig();
+        if (!videoDecoderConfig || !(await VideoDecoder.isConfigSupported(videoDecoderConfig)).supported) {
+            input.dispose();
+            return { blocker: `the browser can't decode ${videoTrack.codec || 'this video codec'}` };
+        }
+
+        const rotation = await videoTrack.getRotation();
+        const sourceWidth = await videoTrack.getDisplayWidth();
+        const sourceHeight = await videoTrack.getDisplayHeight();
+        const width = toEven(targetDimensions?.width ?? sourceWidth);
+        const height = toEven(targetDimensions?.height ?? sourceHeight);
+
+        // Clips that keep the source frames are smart cut by FFmpeg, which copies most of them losslessly
+        const audioTrack = await input.getPrimaryAudioTrack();
+        const keepsFrames = rotation === 0 && width === sourceWidth && height === sourceHeight;
+        if (videoTrack.codec === 'avc' && (!audioTrack || audioTrack.codec === 'aac') && keepsFrames) {
+            input.dispose();
+            return { blocker: 'the clip can be smart cut without re-encoding' };
+        }
+
+        const stats = await videoTrack.computePacketStats(100);
+        const frameRate = stats.averagePacketRate > 0 ? stats.averagePacketRate : DEFAULT_FRAME_RATE;
+
+        const videoEncoderConfig: VideoEncoderConfig = {
+            codec: width * height > 1920 * 1080 ? AVC_CODEC_4K : AVC_CODEC_1080P,
+            width,
+            height,
+            framerate: frameRate,
+            bitrate: Math.round(width * height * frameRate * VIDEO_BITS_PER_PIXEL),
+            hardwareAcceleration: 'prefer-hardware',
+            // Length-prefixed NAL units with the parameter sets in the decoder config, as MP4 stores them
+            avc: { format: 'avc' },
+        };
+        if (!(await VideoEncoder.isConfigSupported(videoEncoderConfig)).supported) {
+            input.dispose();
+            return { blocker: `the browser can't encode H.264 at ${width}x${height}` };
+        }
+
+        let audioDecoderConfig: AudioDecoderConfig | null = null;
+        let audioEncoderConfig: AudioEncoderConfig | null = null;
+        if (audioTrack) {
+            if (typeof AudioEncoder === 'undefined' || typeof AudioDecoder === 'undefined') {
+                input.dispose();
+                return { blocker: 'WebCodecs audio is not available in this browser' };
+            }
+            audioDecoderConfig = await audioTrack.getDecoderConfig();
+            if (!audioDecoderConfig || !(await AudioDecoder.isConfigSupported(audioDecoderConfig)).supported) {
+                input.dispose();
+                return { blocker: `the browser can't decode ${audioTrack.codec || 'this audio codec'}` };
+            }
+            audioEncoderConfig = {
+                codec: AAC_CODEC,
+                sampleRate: audioDecoderConfig.sampleRate,
+                numberOfChannels: audioDecoderConfig.numberOfChannels,
+                bitrate: AUDIO_BITRATE,
+            };
+            if (!(await AudioEncoder.isConfigSupported(audioEncoderConfig)).supported) {
+                input.dispose();
+                return { blocker: "the browser can't encode AAC audio" };
+            }
+        }
+
+        return {
+            input,
+            plan: {
+                videoTrack,
+                audioTrack,
+                videoDecoderConfig,
+                videoEncoderConfig,
+                audioDecoderConfig,
+                audioEncoderConfig,
+                rotation,
+                frameRate,
+            },
+        };
+    } catch (error) {
+        input.dispose();
+        return { blocker: `the file could not be read (${error instanceof Error ? error.message : String(error)})` };
+    }
+}
+
+// Scale a frame to cover the canvas, rotating it as the file's metadata asks, and crop the overflow
+function drawFrame(context: OffscreenCanvasRenderingContext2D, frame: VideoFrame, rotation: number): void {
+    const { width, height } = context.canvas;
+    const sideways = rotation % 180 !== 0;
+    const sourceWidth = sideways ? frame.displayHeight : frame.displayWidth;
+    const sourceHeight = sideways ? frame.displayWidth : frame.displayHeight;
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+
+    context.save();
+    context.translate(width / 2, height / 2);
+    context.rotate((rotation * Math.PI) / 180);
+    const drawWidth = frame.displayWidth * scale;
+    const drawHeight = frame.displayHeight * scale;
+    context.drawImage(frame, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    context.restore();
+}
+
+// Keep the part of an AudioData that falls in [start, end) seconds, moved by offset seconds, or null when none does
+function trimAudioData(data: AudioData, start: number, end: number, offset: number): AudioData | null {
+    const dataStart = data.timestamp / 1e6;
+    const firstFrame = Math.max(0, Math.round((start - dataStart) * data.sampleRate));
+    const lastFrame = Math.min(data.numberOfFrames, Math.round((end - dataStart) * data.sampleRate));
+    if (lastFrame <= firstFrame) return null;
+
+    const frameCount = lastFrame - firstFrame;
+    const samples = new Float32Array(frameCount * data.numberOfChannels);
+    for (let channel = 0; channel < data.numberOfChannels; channel++) {
+        data.copyTo(samples.subarray(channel * frameCount, (channel + 1) * frameCount), {
+            planeIndex: channel,
+            frameOffset: firstFrame,
+            frameCount,
+            format: 'f32-planar',
+        });
+    }
+
+    return new AudioData({
+        format: 'f32-planar',
+        sampleRate: data.sampleRate,
+        numberOfChannels: data.numberOfChannels,
+        numberOfFrames: frameCount,
+        timestamp: Math.round((dataStart + firstFrame / data.sampleRate + offset) * 1e6),
+        data: samples,
+    });
+}
+
+/**
+ * Cut the segments from the source, center crop them to the plan's size and join
+ * them into an MP4
+ * @param input Input returned by planWebCodecsRender; it is disposed when rendering ends
+ * @param plan Codec configurations from planWebCodecsRender
+ * @param segments Segments to include, in order
+ * @param onProgress Called with progress from 0 to 1 as segments are rendered
+ * @param signal Cancels the render
+ */
+export async function renderWithWebCodecs(
+    input: Input,
+    plan: WebCodecsRenderPlan,
+    segments: VideoSegment[],
+    onProgress?: (progress: number, detail: string) => void,
+    signal?: AbortSignal
+): Promise<Blob> {
+    // Everything below is released in the finally block, however far setup got
+    let hasSlot = false;
+    let output: Output | null = null;
+    const codecs: (VideoDecoder | VideoEncoder | AudioDecoder | AudioEncoder)[] = [];
+
+    try {
+        await acquireRenderSlot(signal);
+        hasSlot = true;
+
+        output = new Output({ format: new Mp4OutputFormat({ fastStart: 'in-memory' }), target: new BufferTarget() });
+        const videoSource = new EncodedVideoPacketSource('avc');
+        output.addVideoTrack(videoSource, { frameRate: plan.frameRate });
+        const audioSource = plan.audioTrack ? new EncodedAudioPacketSource('aac') : null;
+        if (audioSource) output.addAudioTrack(audioSource);
+
+        // Codec callbacks can't await, so muxing is chained and the first error is kept for later
+        let codecError: unknown = null;
+        let muxing: Promise<void> = Promise.resolve();
+        const mux = (add: () => Promise<void>) => {
+            muxing = muxing.then(add).catch(error => {
+                codecError ??= error;
+            });
+        };
+        const fail = (error: unknown) => {
+            codecError ??= error;
+        };
+
+        const videoEncoder = new VideoEncoder({
+            output: (chunk, meta) => mux(() => videoSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+            error: fail,
+        });
+        codecs.push(videoEncoder);
+        videoEncoder.configure(plan.videoEncoderConfig);
+
+        const audioEncoder = audioSource && plan.audioEncoderConfig
+            ? new AudioEncoder({
+                output: (chunk, meta) => mux(() => audioSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+                error: fail,
+            })
+            : null;
+        if (audioEncoder) {
+            codecs.push(audioEncoder);
+            audioEncoder.configure(plan.audioEncoderConfig!);
+        }
+
+        const canvas = new OffscreenCanvas(plan.videoEncoderConfig.width, plan.videoEncoderConfig.height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Could not create a 2D canvas context for WebCodecs rendering');
+        }
+
+        const frameDuration = 1 / plan.frameRate;
+        const keyframeInterval = Math.max(1, Math.round(KEYFRAME_INTERVAL_SECONDS * plan.frameRate));
+        const totalDuration = segments.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+        let outputOffset = 0;
+        let encodedFrames = 0;
+
+        const checkStatus = () => {
+            if (signal?.aborted) throw getAbortError(signal);
+            if (codecError) throw codecError;
+        };
+
+        await output.start();
+
+        for (let i = 0; i < segments.length; i++) {
+            const segment = segments[i];
+            const segmentDuration = segment.end - segment.start;
+            onProgress?.(outputOffset / totalDuration, `Encoding segment ${i + 1}/${segments.length} with WebCodecs`);
+
+            // Output timestamps continue where the previous segment ended
+            const segmentOffset = outputOffset;
+            let lastFrameTime = -Infinity;
+            const videoDecoder = new VideoDecoder({
+                output: frame => {
+                    try {
+                        const time = frame.timestamp / 1e6;
+                        // Drop frames outside the segment and duplicates from overlapping GOPs
+                        if (time < segment.start || time >= segment.end || time <= lastFrameTime) return;
+                        const firstFrame = lastFrameTime === -Infinity;
+                        lastFrameTime = time;
+
+                        drawFrame(context, frame, plan.rotation);
+                        const outputFrame = new VideoFrame(canvas, {
+                            timestamp: Math.round((segmentOffset + time - segment.start) * 1e6),
+                            duration: Math.round(frameDuration * 1e6),
+                        });
+                        // Every segment starts on a keyframe so players can seek to it
+                        const keyFrame = firstFrame || encodedFrames % keyframeInterval === 0;
+                        videoEncoder.encode(outputFrame, { keyFrame });
+                        outputFrame.close();
+                        encodedFrames++;
+                        onProgress?.((segmentOffset + time - segment.start) / totalDuration, `Encoding segment ${i + 1}/${segments.length} with WebCodecs`);
+                    } catch (error) {
+                        fail(error);
+                    } finally {
+                        frame.close();
+                    }
+                },
+                error: fail,
+            });
+            codecs.push(videoDecoder);
+            videoDecoder.configure(plan.videoDecoderConfig);
+
+            // Decode from the keyframe before the segment to the keyframe after it
+            const videoPackets = new EncodedPacketSink(plan.videoTrack);
+            const firstKey = await videoPackets.getKeyPacket(segment.start) ?? await videoPackets.getFirstKeyPacket();
+            const lastKey = await videoPackets.getKeyPacket(segment.end);
+            const endKey = lastKey ? await videoPackets.getNextKeyPacket(lastKey) : null;
+            if (firstKey) {
+                for await (const packet of videoPackets.packets(firstKey, endKey ?? undefined)) {
+                    checkStatus();
+                    videoDecoder.decode(packet.toEncodedVideoChunk());
+                    await waitForQueue(() => videoDecoder.decodeQueueSize + videoEncoder.encodeQueueSize, signal);
+                }
+            }
+            await videoDecoder.flush();
+            videoDecoder.close();
+            checkStatus();
+
+            if (plan.audioTrack && plan.audioDecoderConfig && audioEncoder) {
+                const audioDecoder = new AudioDecoder({
+                    output: data => {
+                        try {
+                            // Move the audio onto the output timeline
+                            const trimmed = trimAudioData(data, segment.start, segment.end, segmentOffset - segment.start);
+                            if (!trimmed) return;
+                            audioEncoder.encode(trimmed);
+                            trimmed.close();
+                        } catch (error) {
+                            fail(error);
+                        } finally {
+                            data.close();
+                        }
+                    },
+                    error: fail,
+                });
+                codecs.push(audioDecoder);
+                audioDecoder.configure(plan.audioDecoderConfig);
+
+                const audioPackets = new EncodedPacketSink(plan.audioTrack);
+                const firstPacket = await audioPackets.getPacket(segment.start) ?? await audioPackets.getFirstPacket();
+                for (let packet = firstPacket; packet && packet.timestamp < segment.end; packet = await audioPackets.getNextPacket(packet)) {
+                    checkStatus();
+                    audioDecoder.decode(packet.toEncodedAudioChunk());
+                    await waitForQueue(() => audioDecoder.decodeQueueSize + audioEncoder.encodeQueueSize, signal);
+                }
+                await audioDecoder.flush();
+                audioDecoder.close();
+                checkStatus();
+            }
+
+            outputOffset += segmentDuration;
+        }
+
+        await videoEncoder.flush();
+        await audioEncoder?.flush();
+        await muxing;
+        checkStatus();
+
+        onProgress?.(1, 'Writing MP4 file');
+        await output.finalize();
+        const buffer = (output.target as BufferTarget).buffer;
+        if (!buffer) {
+            throw new Error('WebCodecs render produced no output');
+        }
+        console.log(`WebCodecs encoded ${encodedFrames} frames, ${(buffer.byteLength / (1024 * 1024)).toFixed(2)}MB`);
+        return new Blob([buffer], { type: 'video/mp4' });
+    } catch (error) {
+        await output?.cancel().catch(() => undefined);
+        throw error;
+    } finally {
+        for (const codec of codecs) {
+            if (codec.state !== 'closed') codec.close();
+        }
+        input.dispose();
+        if (hasSlot) releaseRenderSlot();
+    }
+}
@@ -5,13 +5,13 @@ import { FaceDetectionResult } from '@/types';
 
 let model: faceDetection.FaceDetector | null = null;
 
-const api = {
-    async initializeDetector() {
+// Lazily create the detector so repeated calls share a single model
+async function getDetector(): Promise<faceDetection.FaceDetector> {
+    if (!model) {
         // Load TensorFlow.js
         await tf.ready();
 
-        // Create face detector
-        const model = faceDetection.createDetector(
+        model = await faceDetection.createDetector(
             faceDetection.SupportedModels.MediaPipeFaceDetector,
             {
                 runtime: 'tfjs',
@@ -19,27 +19,25 @@ const api = {
                 maxFaces: 1 // We only need to track the main speaker
             }
         );
+    }
 
-        return model !== null;
+    return model;
+}
+
+const api = {
+    async initializeDetector() {
+        const detector = await getDetector();
+        return detector !== null;
     },
 
     async detectFaces(imageData: ImageData, timestamp: number): Promise<FaceDetectionResult[]> {
-        if (!model) {
-            model = await faceDetection.createDetector(
-                faceDetection.SupportedModels.MediaPipeFaceDetector,
-                {
-                    runtime: 'tfjs',
-                    modelType: 'short',
-                    maxFaces: 1
-                }
-            );
-        }
+        const detector = await getDetector();
 
         // Convert ImageData to tensor
         const tensor = tf.browser.fromPixels(imageData);
 
         // Detect faces
-        const faces = await model.estimateFaces(tensor);
+        const faces = await detector.estimateFaces(tensor);
         tensor.dispose();
 
         // Format results
@@ -53,7 +51,14 @@ const api = {
                 height: face.box.height
             }
         }));
+    },
+
+    dispose() {
+        model?.dispose();
+        model = null;
     }
 };
 
-Comlink.expose(api); 
\ No newline at end of file
+export type FaceDetectionWorkerApi = typeof api;
+
+Comlink.expose(api);
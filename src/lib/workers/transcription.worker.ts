@@ -0,0 +1,133 @@
+import * as Comlink from 'comlink';
+import {
+    pipeline,
+    env,
+    type AutomaticSpeechRecognitionPipeline,
+    type PretrainedModelOptions,
+    type ProgressInfo,
+} from '@huggingface/transformers';
+import { TranscriptionResult } from '@/types';
+import { groupWordsIntoSegments } from '@/lib/utils/transcript-utils';
+
+// The generic signature of pipeline() is too complex for the type checker, so pin the task
+const createSpeechRecognitionPipeline = pipeline as (
+    task: 'automatic-speech-recognition',
+    model: string,
+    options: PretrainedModelOptions
+) => Promise<AutomaticSpeechRecognitionPipeline>;
+
+// Models are always fetched from the Hugging Face Hub and kept in the browser cache
+env.allowLocalModels = false;
+
+let transcriber: Promise<AutomaticSpeechRecognitionPipeline> | null = null;
+let loadedModel: string | null = null;
+
+// The API can exist without a usable GPU, so only an adapter proves WebGPU works
+async function hasWebGPU(): Promise<boolean> {
+    const gpu = (navigator as Navigator & { gpu?: { requestAdapter(): Promise<unknown> } }).gpu;
+    if (!gpu) return false;
+    try {
+        return (await gpu.requestAdapter()) !== null;
+    } catch {
+        return false;
+    }
+}
+
+// WebGPU is much faster where available; quantized WASM works everywhere
+async function loadPipeline(
+    model: string,
+    onProgress?: (info: ProgressInfo) => void
+): Promise<AutomaticSpeechRecognitionPipeline> {
+    if (await hasWebGPU()) {
+        try {
+            return await createSpeechRecognitionPipeline('automatic-speech-recognition', model, {
+                device: 'webgpu',
+                dtype: { encoder_model: 'fp32', decoder_model_merged: 'q4' },
+                progress_callback: onProgress,
+            });
+        } catch (error) {
+            console.warn('Could not create the WebGPU pipeline, falling back to WASM:', error);
+        }
+    }
+    return createSpeechRecognitionPipeline('automatic-speech-recognition', model, {
+        device: 'wasm',
+        dtype: 'q8',
+        progress_callback: onProgress,
+    });
+}
+
+// Lazily load the model so repeated calls share one pipeline; switching models reloads it
+async function getTranscriber(
+    model: string,
+    onProgress?: (info: ProgressInfo) => void
+): Promise<AutomaticSpeechRecognitionPipeline> {
+    if (!transcriber || loadedModel !== model) {
+        await disposeTranscriber();
+
+        loadedModel = model;
+        const loading = loadPipeline(model, onProgress);
+        // Let the next call retry after a failed download
+        loading.catch(() => {
+            if (transcriber === loading) {
+                transcriber = null;
+                loadedModel = null;
+            }
+        });
+        transcriber = loading;
+    }
+    return transcriber;
+}
+
+async function disposeTranscriber() {
+    if (transcriber) {
+        const current = transcriber;
+        transcriber = null;
+        loadedModel = null;
+        await current.then(instance => instance.dispose()).catch(() => undefined);
+    }
+}
+
+const api = {
+    async load(model: string, onProgress: (info: ProgressInfo) => void) {
+        await getTranscriber(model, onProgress);
+    },
+
+    /**
+     * Transcribe 16kHz mono samples with word timestamps
+     * @param audio Samples, transferred to the worker
+     * @param model Whisper model id; models with word timestamps need the "_timestamped" export
+     */
+    async transcribe(audio: Float32Array, model: string): Promise<TranscriptionResult> {
+        const instance = await getTranscriber(model);
+        const output = await instance(audio, {
+            return_timestamps: 'word',
+            // Whisper sees 30 seconds at a time; the stride keeps words at the edges intact
+            chunk_length_s: 30,
+            stride_length_s: 5,
+        });
+        const { text, chunks = [] } = Array.isArray(output) ? output[0] : output;
+
+        const words = chunks
+            .map(chunk => ({
+                word: chunk.text.trim(),
+                start: chunk.timestamp[0],
+                // The last word of the audio can come back without an end time
+                end: chunk.timestamp[1] ?? chunk.timestamp[0],
+            }))
+            .filter(word => word.word);
+
+        return {
+            text: text.trim(),
+            segments: groupWordsIntoSegments(words),
+            words,
+        };
+    },
+
+    dispose() {
+        return disposeTranscriber();
+    }
+};
+
+export type TranscriptionWorkerApi = typeof api;
+
+Comlink.expose(api);
@@ -3,28 +3,111 @@ export interface VideoSegment {
     end: number;
     description?: string;
     confidence?: number;
+    // Short headline and opening line suggested by the highlights model
+    title?: string;
+    hook?: string;
     status?: 'suggested' | 'approved' | 'rejected';
+    // Set when the segment was added or changed by hand on the review screen
+    edited?: boolean;
     targetPlatform?: 'youtube' | 'tiktok' | 'instagram' | 'original';
 }
 
 export interface HighlightConfig {
     mode: 'highlights' | 'epic' | 'main-ideas' | 'funny' | 'custom';
     customPrompt?: string;
+    // Total length of the highlight reel in seconds
     maxDuration?: number;
+    // Per-clip length limits in seconds
+    minClipDuration?: number;
+    maxClipDuration?: number;
+    // Use loudness and crowd reactions in the audio as well as the transcript (default on)
+    audioAnalysis?: boolean;
+    // Detect camera changes and show them on the review timeline
+    sceneDetection?: boolean;
+    // Move segment edges onto nearby camera changes (needs sceneDetection)
+    snapToShots?: boolean;
+    // Send sampled keyframes to a vision-capable model along with the transcript
+    visualAnalysis?: boolean;
     targetPlatform: 'youtube' | 'tiktok' | 'instagram' | 'original';
+    // Seconds of silence kept around snapped segment boundaries
+    boundaryPadding?: number;
+    captionStyle?: CaptionStyle;
+    // Model used to pick highlights; defaults to OpenAI
+    llm?: LLMProviderConfig;
 }
 
+export type LLMProviderId = 'openai' | 'anthropic' | 'openai-compatible';
+
+export interface LLMProviderConfig {
+    provider: LLMProviderId;
+    model: string;
+    // Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+    baseUrl?: string;
+}
+
+// A segment suggested by the highlights model that failed validation
+export interface DroppedSegment {
+    start?: number;
+    end?: number;
+    reason: string;
+}
+
+export interface HighlightAnalysisResult {
+    segments: VideoSegment[];
+    dropped: DroppedSegment[];
+    // True when the model output was malformed and had to be repaired
+    repaired?: boolean;
+}
+
+export type CaptionStyle = 'none' | 'karaoke' | 'bold-centered' | 'lower-third';
+
 export interface ProcessedVideo {
     id: string;
     originalFile: File | null;
     segments: VideoSegment[];
     transcript?: string;
+    transcriptionResult?: TranscriptionResult;
+    droppedSegments?: DroppedSegment[];
+    shots?: Shot[];
+    // Which processing steps were served from the analysis cache
+    cacheStatus?: CacheStatus;
     highlightConfig: HighlightConfig;
     outputUrl?: string;
     outputUrls?: Record<string, string>;
     status?: 'suggested' | 'approved';
 }
 
+export interface CacheStatus {
+    transcript: boolean;
+    highlights: boolean;
+}
+
+// A frame sampled from the video for vision-assisted analysis
+export interface Keyframe {
+    time: number;
+    // JPEG data URL
+    image: string;
+}
+
+// A continuous camera shot between two scene changes
+export interface Shot {
+    start: number;
+    end: number;
+}
+
+// A moment where the audio is loud and energetic
+export interface AudioPeak {
+    time: number;
+    // Strength from 0 to 1
+    score: number;
+}
+
+export interface ExcitementCurve {
+    // Excitement from 0 to 1 for each second of audio
+    values: number[];
+    peaks: AudioPeak[];
+}
+
 export interface VideoMetadata {
     duration: number;
     width: number;
@@ -41,6 +124,13 @@ export interface TranscriptionResult {
         end: number;
         text: string;
     }[];
+    words?: TranscriptionWord[];
+}
+
+export interface TranscriptionWord {
+    word: string;
+    start: number;
+    end: number;
 }
 
 export type ProgressStatus = 'idle' | 'uploading' | 'transcribing' | 'analyzing' | 'reviewing' | 'processing' | 'generating' | 'completed' | 'error';
@@ -50,8 +140,14 @@ export interface ProgressState {
     progress: number;
     message?: string;
     error?: string;
+    // Estimated seconds until the current step finishes, when it can be measured
+    etaSeconds?: number;
+    // Engine rendering the current clip, reported once rendering starts
+    renderEngine?: RenderEngine;
 }
 
+export type RenderEngine = 'webcodecs' | 'smart-cut' | 'libx264';
+
 export interface FaceDetectionResult {
     timeStamp: number;
     confidence: number;
@@ -63,6 +159,19 @@ export interface FaceDetectionResult {
     };
 }
 
+// 'browser' runs Whisper on this device, so the audio never leaves it
+export type TranscriptionProviderId = 'openai' | 'openai-compatible' | 'browser';
+
+export interface TranscriptionProviderConfig {
+    provider: TranscriptionProviderId;
+    // Base URL of an OpenAI-compatible server, e.g. http://localhost:8000/v1
+    baseUrl?: string;
+    model?: string;
+    // Key for the transcription server when it differs from the OpenAI key
+    apiKey?: string;
+}
+
 export interface ApiKeyConfig {
     apiKey: string
+    transcription: TranscriptionProviderConfig
 } 
\ No newline at end of file